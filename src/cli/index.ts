@@ -14,11 +14,79 @@
 // See the License for the specific language governing permissions and
 // limitations under the License.
 
+import { mkdirSync, writeFileSync } from 'node:fs';
+import { dirname, join, resolve } from 'node:path';
 import { Command } from 'commander';
 import { CacheManager } from '../client/cache.js';
+import { FigmaError, type FigmaErrorCode, InvalidArgumentError } from '../client/errors.js';
 import { FigmaApiClient } from '../client/figma-api.js';
-import { ImageExporter } from '../core/image-exporter.js';
-import { normalizeNodeId, parseFileKey, parseNodeId } from '../core/url-parser.js';
+import { type RateLimit, sharedRateLimiter } from '../client/rate-limiter.js';
+import type { RetryPolicy } from '../client/retry.js';
+import type { ExportOptions } from '../client/types.js';
+import {
+  CODE_FRAMEWORKS,
+  CODE_STYLINGS,
+  type CodeFramework,
+  type CodeStyling,
+  exportCodeAssets,
+  fetchCode,
+} from '../core/code-generator.js';
+import {
+  DEFAULT_FILE_NAME_TEMPLATE,
+  ImageExporter,
+  buildVariants,
+  summarizeExport,
+} from '../core/image-exporter.js';
+import {
+  DEFAULT_MANIFEST_PATH,
+  type Manifest,
+  loadManifest,
+  runManifest,
+} from '../core/manifest.js';
+import { type NodeSelection, hasSelection, isValidNamePattern } from '../core/node-selector.js';
+import {
+  TEXT_FILE_NAMES,
+  TEXT_FORMATS,
+  type TextFormat,
+  fetchText,
+  formatText,
+} from '../core/text-extractor.js';
+import {
+  TOKEN_FILE_NAMES,
+  TOKEN_FORMATS,
+  type TokenFormat,
+  countTokens,
+  fetchTokens,
+  formatTokens,
+} from '../core/token-extractor.js';
+import { normalizeNodeId, parseFileKey, parseNodeId, resolveNodeIds } from '../core/url-parser.js';
+import { type LogFormat, type Logger, createConsoleLogger } from '../utils/logger.js';
+
+// Exit codes per error code, so scripts can tell a bad token from a bad URL
+const EXIT_CODES: Record<FigmaErrorCode, number> = {
+  INVALID_URL: 2,
+  INVALID_ARGUMENT: 2,
+  AUTH_INVALID: 3,
+  FILE_NOT_FOUND: 4,
+  NODE_NOT_FOUND: 4,
+  RATE_LIMITED: 5,
+  RENDER_FAILED: 6,
+  RENDER_TIMEOUT: 6,
+  API_ERROR: 1,
+};
+
+const HINTS: Partial<Record<FigmaErrorCode, (error: FigmaError) => string>> = {
+  AUTH_INVALID: () =>
+    'Check that --token or FIGMA_PERSONAL_TOKEN is a valid personal access token with access to the file.',
+  FILE_NOT_FOUND: () => 'Check the file key in the URL and that your account can open the file.',
+  NODE_NOT_FOUND: () =>
+    'Check the node IDs. Copy a link to the layer in Figma to get a URL with its node-id.',
+  RATE_LIMITED: (error) =>
+    `Wait${error.context.retryAfter !== undefined ? ` ${error.context.retryAfter}s` : ''} and try again, or export fewer nodes at once.`,
+  RENDER_FAILED: () => 'Check that the node is visible and not empty, or try another format.',
+  RENDER_TIMEOUT: () => 'Try a smaller scale, or export fewer nodes at once.',
+  INVALID_URL: () => 'Use a URL like https://www.figma.com/design/<fileKey>/<name>?node-id=1-2',
+};
 
 const program = new Command();
 
@@ -26,6 +94,14 @@ program
   .name('mcp-figma-demo')
   .description('Export PNG images from Figma with caching support')
   .version('0.1.0')
+  // Options after a command name belong to that command, so `sync --verbose` reaches sync
+  .enablePositionalOptions()
+  .option('-q, --quiet', 'Only print warnings and errors')
+  .option('--log-format <format>', 'Log format: text or json', 'text');
+
+program
+  .command('export', { isDefault: true })
+  .description('Export images of Figma nodes (the default command)')
   .argument('<figma-url>', 'Figma file URL')
   .option('-o, --output <dir>', 'Output directory', './output')
   .option(
@@ -33,106 +109,668 @@ program
     'Figma Personal Access Token (or use FIGMA_PERSONAL_TOKEN env var)',
   )
   .option('-n, --nodes <ids>', 'Comma-separated list of node IDs')
-  .option('-s, --scale <number>', 'Scale factor (1-4)', '2')
-  .option('--format <format>', 'Image format (png, jpg, svg, pdf)', 'png')
+  .option(
+    '--select-type <types>',
+    'Export descendants of the given nodes with these comma-separated types (e.g. COMPONENT)',
+  )
+  .option('--select-name <regex>', 'Export descendants whose name matches this regular expression')
+  .option('--select-depth <number>', 'Maximum depth below the given nodes to select from')
+  .option('-s, --scale <numbers>', 'Comma-separated scale factors (1-4), e.g. 1,2,3', '2')
+  .option(
+    '--format <formats>',
+    'Comma-separated image formats (png, jpg, svg, pdf), e.g. png,svg',
+    'png',
+  )
+  .option(
+    '--file-name <template>',
+    'File name template, e.g. "{page}/{path}/{name}@{scale}x.{ext}"',
+    DEFAULT_FILE_NAME_TEMPLATE,
+  )
+  .option('-c, --concurrency <number>', 'Maximum simultaneous image downloads', '4')
   .option('--no-cache', 'Do not use cache')
+  .option('--cache-max-size <mb>', 'Cache size cap in megabytes (least recently used evicted)')
+  .option('--max-retries <number>', 'Retries of a failed or timed-out request', '3')
+  .option('--timeout <seconds>', 'Timeout of each request attempt', '30')
+  .option('--rate-limit <perMinute>', 'Maximum file and node requests per minute')
+  .option('--image-rate-limit <perMinute>', 'Maximum image render requests per minute')
   .option('--with-metadata', 'Save metadata JSON alongside images')
   .option('--verbose', 'Show verbose output')
   .action(async (figmaUrl: string, options) => {
+    const logger = createCliLogger(options);
     try {
       // Get token from options or environment variable
       const token = options.token || process.env.FIGMA_PERSONAL_TOKEN;
 
       if (!token) {
-        console.error('Error: Figma token is required.');
-        console.error(
+        logger.error('Error: Figma token is required.');
+        logger.error(
           'Please provide --token option or set FIGMA_PERSONAL_TOKEN environment variable.',
         );
-        process.exit(1);
+        process.exit(EXIT_CODES.AUTH_INVALID);
       }
 
       // Parse Figma URL
-      let fileKey: string;
-      try {
-        fileKey = parseFileKey(figmaUrl);
-      } catch (error) {
-        console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
-        process.exit(1);
-      }
+      const fileKey = parseFileKey(figmaUrl);
 
       // Parse root node ID from URL
       const rootNodeId = parseNodeId(figmaUrl);
       const normalizedRootNodeId = rootNodeId ? normalizeNodeId(rootNodeId) : null;
 
-      // Parse node IDs and normalize them
-      let nodeIds: string[];
-      if (options.nodes) {
-        nodeIds = options.nodes.split(',').map((id: string) => normalizeNodeId(id.trim()));
-      } else {
-        // Use root node ID from URL if no --nodes option
-        if (normalizedRootNodeId) {
-          nodeIds = [normalizedRootNodeId];
-        } else {
-          console.error('Error: Node IDs are required.');
-          console.error('Please provide --nodes option or include node-id parameter in the URL.');
-          process.exit(1);
-        }
+      // Node IDs from --nodes, or the node-id in the URL
+      let nodeIds = resolveNodeIds(
+        figmaUrl,
+        options.nodes
+          ?.split(',')
+          .map((id: string) => id.trim())
+          .filter(Boolean),
+      );
+
+      // Parse scales
+      const scales: number[] = options.scale
+        .split(',')
+        .map((value: string) => Number.parseFloat(value.trim()));
+      if (scales.some((scale) => Number.isNaN(scale) || scale < 1 || scale > 4)) {
+        throw new InvalidArgumentError('Scale must be a number between 1 and 4.');
       }
 
-      if (nodeIds.length === 0) {
-        console.error('Error: At least one node ID is required.');
-        process.exit(1);
+      // Parse formats
+      const formats: string[] = options.format
+        .split(',')
+        .map((value: string) => value.trim().toLowerCase());
+      const invalidFormat = formats.find((format) => !isImageFormat(format));
+      if (invalidFormat !== undefined) {
+        throw new InvalidArgumentError(
+          `Unsupported format: ${invalidFormat} (use png, jpg, svg or pdf).`,
+        );
       }
+      const variants = buildVariants(formats.filter(isImageFormat), scales);
 
-      // Parse scale
-      const scale = Number.parseFloat(options.scale);
-      if (Number.isNaN(scale) || scale < 1 || scale > 4) {
-        console.error('Error: Scale must be a number between 1 and 4.');
-        process.exit(1);
+      // Parse descendant selection
+      const selection: NodeSelection = {
+        types: options.selectType
+          ? options.selectType.split(',').map((type: string) => type.trim())
+          : undefined,
+        namePattern: options.selectName,
+        maxDepth: options.selectDepth ? Number.parseInt(options.selectDepth, 10) : undefined,
+      };
+      if (
+        selection.maxDepth !== undefined &&
+        (Number.isNaN(selection.maxDepth) || selection.maxDepth < 1)
+      ) {
+        throw new InvalidArgumentError('Selection depth must be a positive integer.');
+      }
+      if (selection.namePattern && !isValidNamePattern(selection.namePattern)) {
+        throw new InvalidArgumentError(`Invalid name pattern: ${selection.namePattern}`);
+      }
+
+      // Parse concurrency
+      const concurrency = Number.parseInt(options.concurrency, 10);
+      if (Number.isNaN(concurrency) || concurrency < 1) {
+        throw new InvalidArgumentError('Concurrency must be a positive integer.');
       }
 
+      const retryPolicy = parseRetryPolicy(options, logger);
+      configureRateLimits(options, logger);
+
       if (options.verbose) {
-        console.log('Configuration:');
-        console.log(`  File Key: ${fileKey}`);
+        logger.info('Configuration:');
+        logger.info(`  File Key: ${fileKey}`);
         if (normalizedRootNodeId) {
-          console.log(`  Root Node: ${normalizedRootNodeId}`);
+          logger.info(`  Root Node: ${normalizedRootNodeId}`);
+        }
+        logger.info(`  Node IDs: ${nodeIds.join(', ')}`);
+        if (hasSelection(selection)) {
+          logger.info(`  Select Types: ${selection.types?.join(', ') ?? 'any'}`);
+          logger.info(`  Select Name: ${selection.namePattern ?? 'any'}`);
+          logger.info(`  Select Depth: ${selection.maxDepth ?? 'unlimited'}`);
         }
-        console.log(`  Node IDs: ${nodeIds.join(', ')}`);
-        console.log(`  Scale: ${scale}`);
-        console.log(`  Format: ${options.format}`);
-        console.log(`  Output: ${options.output}`);
-        console.log(`  Cache: ${options.cache ? 'enabled' : 'disabled'}`);
-        console.log(`  Metadata: ${options.withMetadata ? 'yes' : 'no'}`);
-        console.log('');
+        logger.info(
+          `  Variants: ${variants.map((variant) => `${variant.format}@${variant.scale}x`).join(', ')}`,
+        );
+        logger.info(`  Concurrency: ${concurrency}`);
+        logger.info(
+          `  Retries: ${retryPolicy.maxAttempts - 1} (timeout ${retryPolicy.timeoutMs / 1000}s)`,
+        );
+        logger.info(`  Output: ${options.output}`);
+        logger.info(`  File Name: ${options.fileName}`);
+        logger.info(`  Cache: ${options.cache ? 'enabled' : 'disabled'}`);
+        logger.info(`  Metadata: ${options.withMetadata ? 'yes' : 'no'}`);
+        logger.info('');
       }
 
+      // Parse cache size cap
+      const maxBytes = parseMaxBytes(options.cacheMaxSize, logger);
+
       // Initialize components
-      const cacheManager = new CacheManager();
-      const apiClient = new FigmaApiClient(token, cacheManager);
-      const imageExporter = new ImageExporter(apiClient);
+      const cacheManager = new CacheManager(undefined, undefined, maxBytes, logger);
+      const apiClient = new FigmaApiClient(token, cacheManager, logger, retryPolicy);
+      const imageExporter = new ImageExporter(apiClient, logger);
+
+      // Replace the given nodes with their selected descendants
+      if (hasSelection(selection)) {
+        nodeIds = await imageExporter.selectNodeIds(fileKey, nodeIds, selection, options.cache);
+        if (nodeIds.length === 0) {
+          throw new InvalidArgumentError('No nodes matched the selection.', { fileKey });
+        }
+        logger.info(`Selected ${nodeIds.length} node(s)`);
+      }
 
       // Export images
-      await imageExporter.exportImages(fileKey, nodeIds, options.output, {
-        scale,
-        format: options.format,
+      const result = await imageExporter.exportImages(fileKey, nodeIds, options.output, {
+        variants,
+        fileNameTemplate: options.fileName,
         useCache: options.cache,
+        concurrency,
         withMetadata: options.withMetadata,
         verbose: options.verbose,
       });
 
-      console.log('\n✓ Export completed successfully!');
+      for (const skipped of result.skipped) {
+        const variant = skipped.format ? ` (${skipped.format}@${skipped.scale}x)` : '';
+        logger.warn(`  Skipped ${skipped.nodeId}${variant}: ${skipped.reason}`);
+      }
+      for (const failure of result.errors) {
+        logger.error(
+          `  Failed ${failure.nodeId} (${failure.format}@${failure.scale}x): ${failure.message}`,
+        );
+      }
+
+      if (result.errors.length > 0 || result.files.length === 0) {
+        logger.error(`\n✗ Export incomplete: ${summarizeExport(result)}`);
+        process.exit(1);
+      }
+
+      logger.info('\n✓ Export completed successfully!');
+      process.exit(0);
+    } catch (error) {
+      logger.error('\n✗ Export failed:');
+      logger.error(error instanceof Error ? error.message : String(error));
+
+      if (options.verbose && error instanceof Error && error.stack) {
+        logger.error('\nStack trace:');
+        logger.error(error.stack);
+      }
+
+      process.exit(reportHint(error, logger));
+    }
+  });
+
+program
+  .command('sync')
+  .description('Run every export listed in a manifest file')
+  .argument('[manifest]', 'Manifest file path', DEFAULT_MANIFEST_PATH)
+  .option(
+    '-t, --token <token>',
+    'Figma Personal Access Token (or use FIGMA_PERSONAL_TOKEN env var)',
+  )
+  .option('--no-cache', 'Do not use cache')
+  .option('--max-retries <number>', 'Retries of a failed or timed-out request', '3')
+  .option('--timeout <seconds>', 'Timeout of each request attempt', '30')
+  .option('--rate-limit <perMinute>', 'Maximum file and node requests per minute')
+  .option('--image-rate-limit <perMinute>', 'Maximum image render requests per minute')
+  .option('--verbose', 'Show verbose output')
+  .action(async (manifestPath: string, options) => {
+    const logger = createCliLogger(options);
+    const token = options.token || process.env.FIGMA_PERSONAL_TOKEN;
+    if (!token) {
+      logger.error('Error: Figma token is required.');
+      logger.error(
+        'Please provide --token option or set FIGMA_PERSONAL_TOKEN environment variable.',
+      );
+      process.exit(EXIT_CODES.AUTH_INVALID);
+    }
+
+    let manifest: Manifest;
+    try {
+      manifest = loadManifest(manifestPath);
+    } catch (error) {
+      logger.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+      process.exit(reportHint(error, logger));
+    }
+
+    configureRateLimits(options, logger);
+    const cacheManager = new CacheManager(undefined, undefined, null, logger);
+    const imageExporter = new ImageExporter(
+      new FigmaApiClient(token, cacheManager, logger, parseRetryPolicy(options, logger)),
+      logger,
+    );
+    const results = await runManifest(manifest, manifestPath, imageExporter, {
+      useCache: options.cache,
+      verbose: options.verbose,
+      logger,
+    });
+
+    logger.info('\nSummary:');
+    for (const result of results) {
+      const status = result.success
+        ? `✓ ${result.summary} -> ${result.outputDir}`
+        : `✗ ${result.error ?? result.summary}`;
+      logger.info(`  [${result.name}] ${status}`);
+    }
+
+    const failed = results.filter((result) => !result.success);
+    logger.info(`\n${results.length - failed.length} of ${results.length} export(s) succeeded`);
+
+    // Exit with the first failure's code, e.g. 3 when the token was rejected
+    const errorCode = failed.find((result) => result.errorCode)?.errorCode;
+    process.exit(failed.length === 0 ? 0 : errorCode ? EXIT_CODES[errorCode] : 1);
+  });
+
+program
+  .command('tokens')
+  .description('Extract design tokens (colors, typography, shadows, spacing, radii)')
+  .argument('<figma-url>', 'Figma file URL')
+  .option(
+    '-t, --token <token>',
+    'Figma Personal Access Token (or use FIGMA_PERSONAL_TOKEN env var)',
+  )
+  .option('-n, --nodes <ids>', 'Comma-separated list of root node IDs')
+  .option('-o, --output <dir>', 'Output directory', './tokens')
+  .option('--format <formats>', 'Comma-separated formats: json, css, tailwind', 'json,css,tailwind')
+  .option('--no-cache', 'Do not use cache')
+  .option('--verbose', 'Show verbose output')
+  .action(async (figmaUrl: string, options) => {
+    const logger = createCliLogger(options);
+    const token = options.token || process.env.FIGMA_PERSONAL_TOKEN;
+    if (!token) {
+      logger.error('Error: Figma token is required.');
+      logger.error(
+        'Please provide --token option or set FIGMA_PERSONAL_TOKEN environment variable.',
+      );
+      process.exit(EXIT_CODES.AUTH_INVALID);
+    }
+
+    const formats = options.format.split(',').map((format: string) => format.trim());
+    const invalidFormat = formats.find(
+      (format: string) => !(TOKEN_FORMATS as readonly string[]).includes(format),
+    );
+    if (invalidFormat) {
+      logger.error(`Error: Unsupported format: ${invalidFormat} (use json, css or tailwind).`);
+      process.exit(EXIT_CODES.INVALID_ARGUMENT);
+    }
+
+    try {
+      const fileKey = parseFileKey(figmaUrl);
+      const nodeIds = resolveNodeIds(
+        figmaUrl,
+        options.nodes?.split(',').map((id: string) => id.trim()),
+      );
+
+      const client = new FigmaApiClient(
+        token,
+        new CacheManager(undefined, undefined, null, logger),
+        logger,
+      );
+      const { tokens, fileName, missing } = await fetchTokens(
+        client,
+        fileKey,
+        nodeIds,
+        options.cache,
+      );
+      for (const nodeId of missing) {
+        logger.warn(`  Skipped ${nodeId}: Node not found in file`);
+      }
+
+      mkdirSync(options.output, { recursive: true });
+      for (const format of formats as TokenFormat[]) {
+        const path = join(options.output, TOKEN_FILE_NAMES[format]);
+        writeFileSync(path, formatTokens(tokens, format));
+        logger.info(`✓ Saved: ${path}`);
+      }
+
+      const counts = Object.entries(countTokens(tokens))
+        .map(([category, count]) => `${count} ${category}`)
+        .join(', ');
+      logger.info(`\n✓ Extracted ${tokens.length} token(s) from "${fileName}" (${counts})`);
       process.exit(0);
     } catch (error) {
-      console.error('\n✗ Export failed:');
-      console.error(error instanceof Error ? error.message : String(error));
+      logger.error(
+        `\n✗ Token extraction failed: ${error instanceof Error ? error.message : error}`,
+      );
+      if (options.verbose && error instanceof Error && error.stack) {
+        logger.error(error.stack);
+      }
+      process.exit(reportHint(error, logger));
+    }
+  });
+
+program
+  .command('text')
+  .description('Extract the text of a design for copy review and translation')
+  .argument('<figma-url>', 'Figma file URL')
+  .option(
+    '-t, --token <token>',
+    'Figma Personal Access Token (or use FIGMA_PERSONAL_TOKEN env var)',
+  )
+  .option('-n, --nodes <ids>', 'Comma-separated list of root node IDs')
+  .option('--format <format>', 'Output format: json, i18n or xliff', 'json')
+  .option('-o, --output <file>', 'Output file (default: texts.json, messages.json or messages.xlf)')
+  .option('--source-language <lang>', 'Language of the copy, for XLIFF', 'en')
+  .option('--no-cache', 'Do not use cache')
+  .option('--verbose', 'Show verbose output')
+  .action(async (figmaUrl: string, options) => {
+    const logger = createCliLogger(options);
+    const token = options.token || process.env.FIGMA_PERSONAL_TOKEN;
+    if (!token) {
+      logger.error('Error: Figma token is required.');
+      logger.error(
+        'Please provide --token option or set FIGMA_PERSONAL_TOKEN environment variable.',
+      );
+      process.exit(EXIT_CODES.AUTH_INVALID);
+    }
+
+    if (!(TEXT_FORMATS as readonly string[]).includes(options.format)) {
+      logger.error(`Error: Unsupported format: ${options.format} (use json, i18n or xliff).`);
+      process.exit(EXIT_CODES.INVALID_ARGUMENT);
+    }
+    const format = options.format as TextFormat;
+
+    try {
+      const fileKey = parseFileKey(figmaUrl);
+      const nodeIds = resolveNodeIds(
+        figmaUrl,
+        options.nodes?.split(',').map((id: string) => id.trim()),
+      );
+
+      const client = new FigmaApiClient(
+        token,
+        new CacheManager(undefined, undefined, null, logger),
+        logger,
+      );
+      const { texts, fileName, missing } = await fetchText(client, fileKey, nodeIds, options.cache);
+      for (const nodeId of missing) {
+        logger.warn(`  Skipped ${nodeId}: Node not found in file`);
+      }
+
+      const output = options.output ?? TEXT_FILE_NAMES[format];
+      mkdirSync(dirname(resolve(output)), { recursive: true });
+      writeFileSync(output, formatText(texts, format, options.sourceLanguage));
+      logger.info(`✓ Saved: ${output}`);
+      logger.info(`\n✓ Extracted ${texts.length} text(s) from "${fileName}"`);
+      process.exit(0);
+    } catch (error) {
+      logger.error(`\n✗ Text extraction failed: ${error instanceof Error ? error.message : error}`);
+      if (options.verbose && error instanceof Error && error.stack) {
+        logger.error(error.stack);
+      }
+      process.exit(reportHint(error, logger));
+    }
+  });
+
+program
+  .command('code')
+  .description('Generate React or HTML scaffolding with CSS or Tailwind from a frame')
+  .argument('<figma-url>', 'Figma file URL')
+  .option(
+    '-t, --token <token>',
+    'Figma Personal Access Token (or use FIGMA_PERSONAL_TOKEN env var)',
+  )
+  .option('-n, --nodes <ids>', 'Comma-separated list of node IDs, one component each')
+  .option('--framework <framework>', 'Output: react or html', 'react')
+  .option('--styling <styling>', 'Styles: css or tailwind', 'css')
+  .option(
+    '--name <name>',
+    'Component name, turned into a PascalCase identifier (default: from the node name)',
+  )
+  .option('-o, --output <dir>', 'Output directory', './generated')
+  .option('--no-assets', 'Do not export the vectors and images the code refers to')
+  .option('--no-cache', 'Do not use cache')
+  .option('--verbose', 'Show verbose output')
+  .action(async (figmaUrl: string, options) => {
+    const logger = createCliLogger(options);
+    const token = options.token || process.env.FIGMA_PERSONAL_TOKEN;
+    if (!token) {
+      logger.error('Error: Figma token is required.');
+      logger.error(
+        'Please provide --token option or set FIGMA_PERSONAL_TOKEN environment variable.',
+      );
+      process.exit(EXIT_CODES.AUTH_INVALID);
+    }
+
+    if (!(CODE_FRAMEWORKS as readonly string[]).includes(options.framework)) {
+      logger.error(`Error: Unsupported framework: ${options.framework} (use react or html).`);
+      process.exit(EXIT_CODES.INVALID_ARGUMENT);
+    }
+    if (!(CODE_STYLINGS as readonly string[]).includes(options.styling)) {
+      logger.error(`Error: Unsupported styling: ${options.styling} (use css or tailwind).`);
+      process.exit(EXIT_CODES.INVALID_ARGUMENT);
+    }
+
+    try {
+      const fileKey = parseFileKey(figmaUrl);
+      const nodeIds = resolveNodeIds(
+        figmaUrl,
+        options.nodes?.split(',').map((id: string) => id.trim()),
+      );
+
+      const client = new FigmaApiClient(
+        token,
+        new CacheManager(undefined, undefined, null, logger),
+        logger,
+      );
+      const { components, fileName, missing } = await fetchCode(
+        client,
+        fileKey,
+        nodeIds,
+        {
+          framework: options.framework as CodeFramework,
+          styling: options.styling as CodeStyling,
+          componentName: options.name,
+        },
+        options.cache,
+      );
+      for (const nodeId of missing) {
+        logger.warn(`  Skipped ${nodeId}: Node not found in file`);
+      }
 
+      mkdirSync(options.output, { recursive: true });
+      for (const file of components.flatMap((component) => component.files)) {
+        const path = join(options.output, file.path);
+        writeFileSync(path, file.contents);
+        logger.info(`✓ Saved: ${path}`);
+      }
+
+      const assets = components.flatMap((component) => component.assets);
+      if (options.assets && assets.length > 0) {
+        const result = await exportCodeAssets(
+          new ImageExporter(client, logger),
+          fileKey,
+          assets,
+          options.output,
+          { useCache: options.cache },
+        );
+        for (const skipped of result.skipped) {
+          logger.warn(`  Skipped asset ${skipped.nodeId}: ${skipped.reason}`);
+        }
+        for (const error of result.errors) {
+          logger.error(`  Failed asset ${error.nodeId}: ${error.message}`);
+        }
+      }
+
+      logger.info(
+        `\n✓ Generated ${components.length} component(s) from "${fileName}" with ${assets.length} asset(s)`,
+      );
+      process.exit(0);
+    } catch (error) {
+      logger.error(`\n✗ Code generation failed: ${error instanceof Error ? error.message : error}`);
       if (options.verbose && error instanceof Error && error.stack) {
-        console.error('\nStack trace:');
-        console.error(error.stack);
+        logger.error(error.stack);
       }
+      process.exit(reportHint(error, logger));
+    }
+  });
+
+const cache = program.command('cache').description('Manage the local API and image cache');
+
+cache
+  .command('clear')
+  .description('Remove cached entries')
+  .option('--file-key <key>', 'Only remove entries for this Figma file key')
+  .option('--cache-dir <dir>', 'Cache directory', '.cache')
+  .action((options) => {
+    const logger = createCliLogger(options);
+    const cacheManager = new CacheManager(options.cacheDir, undefined, null, logger);
+    const removed = cacheManager.clear(options.fileKey);
+    logger.info(`Removed ${removed} cache entr${removed === 1 ? 'y' : 'ies'}`);
+  });
+
+cache
+  .command('prune')
+  .description('Remove expired entries and apply the size cap')
+  .option('--max-size <mb>', 'Cache size cap in megabytes (least recently used evicted)')
+  .option('--cache-dir <dir>', 'Cache directory', '.cache')
+  .action((options) => {
+    const logger = createCliLogger(options);
+    const cacheManager = new CacheManager(
+      options.cacheDir,
+      undefined,
+      parseMaxBytes(options.maxSize, logger),
+      logger,
+    );
+    const removed = cacheManager.prune();
+    logger.info(`Pruned ${removed} cache entr${removed === 1 ? 'y' : 'ies'}`);
+  });
+
+cache
+  .command('stats')
+  .description('Show cache statistics')
+  .option('--cache-dir <dir>', 'Cache directory', '.cache')
+  .action((options) => {
+    const logger = createCliLogger(options);
+    const stats = new CacheManager(options.cacheDir, undefined, null, logger).stats();
 
-      process.exit(1);
+    // JSON logs get the statistics as one object rather than a line per field
+    if ((options.logFormat ?? program.opts().logFormat) === 'json') {
+      logger.info('Cache statistics', { ...stats });
+      return;
     }
+
+    logger.info(`Cache directory: ${stats.cacheDir}`);
+    logger.info(`  Node entries:  ${stats.nodeEntries}`);
+    logger.info(`  Image entries: ${stats.imageEntries} (${stats.blobs} blob(s))`);
+    logger.info(`  Expired:       ${stats.expiredEntries}`);
+    logger.info(`  Total size:    ${(stats.totalBytes / 1024 / 1024).toFixed(2)} MB`);
+    logger.info(`  Oldest:        ${stats.oldest ?? '-'}`);
+    logger.info(`  Newest:        ${stats.newest ?? '-'}`);
+  });
+
+/**
+ * Create the logger for a command from its --quiet and --log-format options, given
+ * before or after the command name (--verbose adds debug output)
+ */
+function createCliLogger(options: {
+  verbose?: boolean;
+  quiet?: boolean;
+  logFormat?: string;
+}): Logger {
+  const globals = program.opts<{ quiet?: boolean; logFormat: string }>();
+  const quiet = options.quiet || globals.quiet;
+  const logFormat = options.logFormat ?? globals.logFormat;
+  if (logFormat !== 'text' && logFormat !== 'json') {
+    console.error(`Error: Unsupported log format: ${logFormat} (use text or json).`);
+    process.exit(EXIT_CODES.INVALID_ARGUMENT);
+  }
+
+  return createConsoleLogger({
+    level: quiet ? 'warn' : options.verbose ? 'debug' : 'info',
+    format: logFormat as LogFormat,
   });
+}
+
+/**
+ * Print the hint for a coded error
+ * @returns Exit code for the error (1 when it has no code)
+ */
+function reportHint(error: unknown, logger: Logger): number {
+  if (!(error instanceof FigmaError)) {
+    return 1;
+  }
+
+  const hint = HINTS[error.code]?.(error);
+  logger.error(`\n[${error.code}]${hint ? ` ${hint}` : ''}`);
+  return EXIT_CODES[error.code];
+}
+
+/**
+ * Parse --max-retries and --timeout into a retry policy
+ */
+function parseRetryPolicy(
+  options: { maxRetries: string; timeout: string },
+  logger: Logger,
+): Pick<RetryPolicy, 'maxAttempts' | 'timeoutMs'> {
+  const retries = Number.parseInt(options.maxRetries, 10);
+  if (Number.isNaN(retries) || retries < 0) {
+    logger.error('Error: Max retries must be a non-negative integer.');
+    process.exit(EXIT_CODES.INVALID_ARGUMENT);
+  }
+
+  const timeout = Number.parseFloat(options.timeout);
+  if (Number.isNaN(timeout) || timeout <= 0) {
+    logger.error('Error: Timeout must be a positive number of seconds.');
+    process.exit(EXIT_CODES.INVALID_ARGUMENT);
+  }
+
+  return { maxAttempts: retries + 1, timeoutMs: Math.round(timeout * 1000) };
+}
+
+/**
+ * Apply --rate-limit and --image-rate-limit to the shared rate limiter
+ */
+function configureRateLimits(
+  options: { rateLimit?: string; imageRateLimit?: string },
+  logger: Logger,
+): void {
+  const parse = (value: string | undefined, option: string): Partial<RateLimit> | undefined => {
+    if (value === undefined) {
+      return undefined;
+    }
+    const requestsPerMinute = Number.parseFloat(value);
+    if (Number.isNaN(requestsPerMinute) || requestsPerMinute <= 0) {
+      logger.error(`Error: ${option} must be a positive number of requests per minute.`);
+      process.exit(EXIT_CODES.INVALID_ARGUMENT);
+    }
+    return { requestsPerMinute };
+  };
+
+  sharedRateLimiter.configure({
+    files: parse(options.rateLimit, '--rate-limit'),
+    images: parse(options.imageRateLimit, '--image-rate-limit'),
+  });
+}
+
+function isImageFormat(value: string): value is ExportOptions['format'] {
+  return ['png', 'jpg', 'svg', 'pdf'].includes(value);
+}
+
+/**
+ * Parse a megabyte option into a byte count (null when not set)
+ */
+function parseMaxBytes(value: string | undefined, logger: Logger): number | null {
+  if (value === undefined) {
+    return null;
+  }
+
+  const megabytes = Number.parseFloat(value);
+  if (Number.isNaN(megabytes) || megabytes <= 0) {
+    logger.error('Error: Cache size must be a positive number of megabytes.');
+    process.exit(EXIT_CODES.INVALID_ARGUMENT);
+  }
+
+  return Math.floor(megabytes * 1024 * 1024);
+}
+
+/**
+ * Add --quiet and --log-format to every command, so they work after its name too
+ */
+function addLoggingOptions(command: Command): void {
+  if (command.commands.length > 0) {
+    command.commands.forEach(addLoggingOptions);
+    return;
+  }
+  command
+    .option('-q, --quiet', 'Only print warnings and errors')
+    .option('--log-format <format>', 'Log format: text or json');
+}
 
+program.commands.forEach(addLoggingOptions);
 program.parse();
@@ -13,34 +13,93 @@
 // limitations under the License.
 
 import { createHash } from 'node:crypto';
-import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
-import { join } from 'node:path';
-import type { CachedNodeResponse, GetNodesResponse } from './types.js';
+import {
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  readdirSync,
+  statSync,
+  unlinkSync,
+  utimesSync,
+  writeFileSync,
+} from 'node:fs';
+import { basename, join } from 'node:path';
+import { type Logger, defaultLogger } from '../utils/logger.js';
+import type {
+  CacheMetadata,
+  CacheStats,
+  CachedImageMetadata,
+  CachedNodeResponse,
+  FileVersion,
+  GetNodesResponse,
+  ImageCacheKey,
+} from './types.js';
+
+// A cache entry as seen by clear/prune/evict. Entry files are touched on
+// every hit, so their mtime doubles as the last access time for LRU.
+interface CacheEntry {
+  path: string;
+  fileKey: string;
+  size: number;
+  lastAccessed: number;
+  createdAt: number;
+  lastModified?: string; // File version the entry was fetched or rendered at
+  expired: boolean;
+  contentHash?: string;
+}
 
 export class CacheManager {
   private cacheDir: string;
   private ttl: number; // Time to live in milliseconds
+  private maxBytes: number | null; // Size cap enforced by LRU eviction
+  private logger: Logger;
+  private nodeListeners: Array<(fileKey: string, nodeIds: string[]) => void> = [];
 
-  constructor(cacheDir = '.cache', ttl = 86400000) {
+  constructor(
+    cacheDir = '.cache',
+    ttl = 86400000,
+    maxBytes: number | null = null,
+    logger: Logger = defaultLogger,
+  ) {
     // Default TTL: 24 hours
     this.cacheDir = cacheDir;
     this.ttl = ttl;
+    this.maxBytes = maxBytes;
+    this.logger = logger;
     this.ensureCacheDir();
   }
 
   private ensureCacheDir(): void {
-    if (!existsSync(this.cacheDir)) {
-      mkdirSync(this.cacheDir, { recursive: true });
+    for (const dir of [this.cacheDir, this.imagesDir(), this.blobsDir()]) {
+      if (!existsSync(dir)) {
+        mkdirSync(dir, { recursive: true });
+      }
     }
   }
 
+  private imagesDir(): string {
+    return join(this.cacheDir, 'images');
+  }
+
+  private blobsDir(): string {
+    return join(this.cacheDir, 'blobs');
+  }
+
   generateKey(fileKey: string, nodeIds: string[]): string {
     const sortedIds = [...nodeIds].sort();
     const content = `${fileKey}:${sortedIds.join(',')}`;
     return createHash('sha256').update(content).digest('hex');
   }
 
-  get(fileKey: string, nodeIds: string[]): GetNodesResponse | null {
+  has(fileKey: string, nodeIds: string[]): boolean {
+    return existsSync(join(this.cacheDir, `${this.generateKey(fileKey, nodeIds)}.json`));
+  }
+
+  /**
+   * Get cached node data. With the file's current version, an entry is valid as
+   * long as it was fetched at that version; without one, the TTL applies.
+   */
+  get(fileKey: string, nodeIds: string[], current?: FileVersion): GetNodesResponse | null {
     const key = this.generateKey(fileKey, nodeIds);
     const cachePath = join(this.cacheDir, `${key}.json`);
 
@@ -52,15 +111,23 @@ export class CacheManager {
       const content = readFileSync(cachePath, 'utf-8');
       const cached: CachedNodeResponse = JSON.parse(content);
 
-      // Check if cache is expired
-      const now = Date.now();
-      if (now - cached.metadata.timestamp > cached.metadata.ttl) {
-        return null;
+      if (current) {
+        // Check if the file changed since the entry was fetched
+        if (!this.isSameVersion(cached.metadata, current)) {
+          return null;
+        }
+      } else {
+        // Check if cache is expired
+        const now = Date.now();
+        if (now - cached.metadata.timestamp > cached.metadata.ttl) {
+          return null;
+        }
       }
 
+      this.touch(cachePath);
       return cached.data;
     } catch (error) {
-      console.error(`Failed to read cache: ${error}`);
+      this.logger.error(`Failed to read cache: ${error}`);
       return null;
     }
   }
@@ -75,6 +142,8 @@ export class CacheManager {
         nodeIds,
         timestamp: Date.now(),
         ttl: this.ttl,
+        version: data.version,
+        lastModified: data.lastModified,
       },
       data,
     };
@@ -82,12 +151,318 @@ export class CacheManager {
     try {
       writeFileSync(cachePath, JSON.stringify(cached, null, 2), 'utf-8');
     } catch (error) {
-      console.error(`Failed to write cache: ${error}`);
+      this.logger.error(`Failed to write cache: ${error}`);
+    }
+
+    this.enforceSizeLimit();
+
+    for (const listener of this.nodeListeners) {
+      listener(fileKey, nodeIds);
+    }
+  }
+
+  /**
+   * Register a listener called whenever fresh node data is written to the cache
+   * @returns Function removing the listener
+   */
+  onNodesCached(listener: (fileKey: string, nodeIds: string[]) => void): () => void {
+    this.nodeListeners.push(listener);
+    return () => {
+      this.nodeListeners = this.nodeListeners.filter((candidate) => candidate !== listener);
+    };
+  }
+
+  private isSameVersion(metadata: CacheMetadata, current: FileVersion): boolean {
+    if (metadata.version && current.version) {
+      return metadata.version === current.version;
+    }
+    return Boolean(metadata.lastModified) && metadata.lastModified === current.lastModified;
+  }
+
+  generateImageKey(key: ImageCacheKey): string {
+    const content = `${key.fileKey}:${key.nodeId}:${key.format}:${key.scale}:${key.lastModified}`;
+    return createHash('sha256').update(content).digest('hex');
+  }
+
+  /**
+   * Get a rendered image. Entries never expire by TTL: the key includes the
+   * file's lastModified, so an edited design simply misses, and `prune()` drops
+   * the entries for older versions.
+   */
+  getImage(key: ImageCacheKey): Buffer | null {
+    const entryPath = join(this.imagesDir(), `${this.generateImageKey(key)}.json`);
+
+    if (!existsSync(entryPath)) {
+      return null;
+    }
+
+    try {
+      const entry: CachedImageMetadata = JSON.parse(readFileSync(entryPath, 'utf-8'));
+      const blobPath = join(this.blobsDir(), entry.contentHash);
+      if (!existsSync(blobPath)) {
+        return null;
+      }
+
+      const data = readFileSync(blobPath);
+      // Guard against a truncated or overwritten blob
+      if (createHash('sha256').update(data).digest('hex') !== entry.contentHash) {
+        return null;
+      }
+
+      this.touch(entryPath);
+      return data;
+    } catch (error) {
+      this.logger.error(`Failed to read image cache: ${error}`);
+      return null;
+    }
+  }
+
+  setImage(key: ImageCacheKey, data: Buffer): void {
+    const contentHash = createHash('sha256').update(data).digest('hex');
+    const entryPath = join(this.imagesDir(), `${this.generateImageKey(key)}.json`);
+    const blobPath = join(this.blobsDir(), contentHash);
+
+    const entry: CachedImageMetadata = {
+      ...key,
+      contentHash,
+      size: data.length,
+      timestamp: Date.now(),
+    };
+
+    try {
+      // Identical renders share one blob
+      if (!existsSync(blobPath)) {
+        writeFileSync(blobPath, data);
+      }
+      writeFileSync(entryPath, JSON.stringify(entry, null, 2), 'utf-8');
+    } catch (error) {
+      this.logger.error(`Failed to write image cache: ${error}`);
+    }
+
+    this.enforceSizeLimit();
+  }
+
+  /**
+   * Remove cached entries, optionally only those for one file
+   * @returns Number of entries removed
+   */
+  clear(fileKey?: string): number {
+    let removed = 0;
+    for (const entry of this.listEntries()) {
+      if (!fileKey || entry.fileKey === fileKey) {
+        this.remove(entry.path);
+        removed++;
+      }
+    }
+
+    this.removeOrphanBlobs();
+    return removed;
+  }
+
+  /**
+   * Remove expired entries (unversioned node data older than the TTL, anything fetched
+   * or rendered at a superseded version of its file, images whose blob is gone) and
+   * blobs no entry refers to, then apply the size cap
+   * @returns Number of entries removed
+   */
+  prune(): number {
+    let removed = 0;
+    for (const entry of this.listEntries()) {
+      if (entry.expired) {
+        this.remove(entry.path);
+        removed++;
+      }
     }
+
+    this.removeOrphanBlobs();
+    return removed + this.enforceSizeLimit();
+  }
+
+  stats(): CacheStats {
+    const entries = this.listEntries();
+    const created = entries.map((entry) => entry.createdAt);
+
+    return {
+      cacheDir: this.cacheDir,
+      nodeEntries: entries.filter((entry) => !entry.contentHash).length,
+      imageEntries: entries.filter((entry) => entry.contentHash).length,
+      blobs: this.listFiles(this.blobsDir()).length,
+      totalBytes: this.totalBytes(),
+      maxBytes: this.maxBytes,
+      expiredEntries: entries.filter((entry) => entry.expired).length,
+      oldest: created.length > 0 ? new Date(Math.min(...created)).toISOString() : null,
+      newest: created.length > 0 ? new Date(Math.max(...created)).toISOString() : null,
+    };
   }
 
-  clear(): void {
-    // TODO: Implement cache clearing logic if needed
-    console.log('Cache clearing not yet implemented');
+  /**
+   * Evict least recently used entries until the cache fits within maxBytes
+   * @returns Number of entries evicted
+   */
+  private enforceSizeLimit(): number {
+    if (this.maxBytes === null) {
+      return 0;
+    }
+
+    let total = this.totalBytes();
+    if (total <= this.maxBytes) {
+      return 0;
+    }
+
+    const entries = this.listEntries().sort((a, b) => a.lastAccessed - b.lastAccessed);
+
+    // Blobs are shared, so only count a blob as freed once nothing refers to it
+    const blobRefs = new Map<string, number>();
+    for (const entry of entries) {
+      if (entry.contentHash) {
+        blobRefs.set(entry.contentHash, (blobRefs.get(entry.contentHash) ?? 0) + 1);
+      }
+    }
+
+    let evicted = 0;
+    for (const entry of entries) {
+      if (total <= this.maxBytes) {
+        break;
+      }
+
+      this.remove(entry.path);
+      total -= entry.size;
+      evicted++;
+
+      if (entry.contentHash) {
+        const refs = (blobRefs.get(entry.contentHash) ?? 1) - 1;
+        blobRefs.set(entry.contentHash, refs);
+        if (refs === 0) {
+          const blobPath = join(this.blobsDir(), entry.contentHash);
+          total -= this.fileSize(blobPath);
+          this.remove(blobPath);
+        }
+      }
+    }
+
+    return evicted;
+  }
+
+  private listEntries(): CacheEntry[] {
+    const entries: CacheEntry[] = [];
+    const now = Date.now();
+
+    for (const path of this.listFiles(this.cacheDir)) {
+      if (!path.endsWith('.json')) {
+        continue;
+      }
+      try {
+        const cached: CachedNodeResponse = JSON.parse(readFileSync(path, 'utf-8'));
+        const stats = statSync(path);
+        entries.push({
+          path,
+          fileKey: cached.metadata.fileKey,
+          size: stats.size,
+          lastAccessed: stats.mtimeMs,
+          createdAt: cached.metadata.timestamp,
+          lastModified: cached.metadata.lastModified,
+          // Versioned entries stay valid until the file changes (checked below)
+          expired:
+            !cached.metadata.version &&
+            !cached.metadata.lastModified &&
+            now - cached.metadata.timestamp > cached.metadata.ttl,
+        });
+      } catch {
+        // Ignore unreadable entries
+      }
+    }
+
+    for (const path of this.listFiles(this.imagesDir())) {
+      try {
+        const cached: CachedImageMetadata = JSON.parse(readFileSync(path, 'utf-8'));
+        const stats = statSync(path);
+        entries.push({
+          path,
+          fileKey: cached.fileKey,
+          size: stats.size,
+          lastAccessed: stats.mtimeMs,
+          createdAt: cached.timestamp,
+          lastModified: cached.lastModified,
+          expired: !existsSync(join(this.blobsDir(), cached.contentHash)),
+          contentHash: cached.contentHash,
+        });
+      } catch {
+        // Ignore unreadable entries
+      }
+    }
+
+    // Entries for an older version of a file than another entry has seen are never
+    // hit again: lookups check the current version, and image keys include it
+    const newest = new Map<string, string>();
+    for (const entry of entries) {
+      const latest = newest.get(entry.fileKey);
+      if (entry.lastModified && (!latest || entry.lastModified > latest)) {
+        newest.set(entry.fileKey, entry.lastModified);
+      }
+    }
+    for (const entry of entries) {
+      const latest = newest.get(entry.fileKey);
+      if (entry.lastModified && latest && entry.lastModified < latest) {
+        entry.expired = true;
+      }
+    }
+
+    return entries;
+  }
+
+  private removeOrphanBlobs(): void {
+    const referenced = new Set(
+      this.listEntries()
+        .map((entry) => entry.contentHash)
+        .filter((hash): hash is string => Boolean(hash)),
+    );
+
+    for (const path of this.listFiles(this.blobsDir())) {
+      if (!referenced.has(basename(path))) {
+        this.remove(path);
+      }
+    }
+  }
+
+  private totalBytes(): number {
+    return [
+      ...this.listFiles(this.cacheDir),
+      ...this.listFiles(this.imagesDir()),
+      ...this.listFiles(this.blobsDir()),
+    ].reduce((sum, path) => sum + this.fileSize(path), 0);
+  }
+
+  private listFiles(dir: string): string[] {
+    if (!existsSync(dir)) {
+      return [];
+    }
+    return readdirSync(dir, { withFileTypes: true })
+      .filter((entry) => entry.isFile())
+      .map((entry) => join(dir, entry.name));
+  }
+
+  private fileSize(path: string): number {
+    try {
+      return statSync(path).size;
+    } catch {
+      return 0;
+    }
+  }
+
+  private touch(path: string): void {
+    try {
+      const now = new Date();
+      utimesSync(path, now, now);
+    } catch {
+      // Access tracking is best effort
+    }
+  }
+
+  private remove(path: string): void {
+    try {
+      unlinkSync(path);
+    } catch (error) {
+      this.logger.error(`Failed to remove cache file: ${error}`);
+    }
   }
 }
@@ -0,0 +1,188 @@
+// Copyright 2025
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+// Stable codes callers can branch on; messages may change, codes do not
+export type FigmaErrorCode =
+  | 'AUTH_INVALID'
+  | 'FILE_NOT_FOUND'
+  | 'NODE_NOT_FOUND'
+  | 'RATE_LIMITED'
+  | 'RENDER_FAILED'
+  | 'RENDER_TIMEOUT'
+  | 'INVALID_URL'
+  | 'INVALID_ARGUMENT'
+  | 'API_ERROR';
+
+export interface FigmaErrorContext {
+  fileKey?: string;
+  nodeId?: string;
+  retryAfter?: number; // Seconds to wait before trying again
+  status?: number; // HTTP status of the failed request
+}
+
+/**
+ * Base class of every error with a stable code
+ */
+export class FigmaError extends Error {
+  readonly code: FigmaErrorCode;
+  readonly context: FigmaErrorContext;
+
+  constructor(code: FigmaErrorCode, message: string, context: FigmaErrorContext = {}) {
+    super(message);
+    this.name = new.target.name;
+    this.code = code;
+    this.context = context;
+  }
+
+  /**
+   * Code, message and context, without the stack
+   */
+  toJSON(): { code: FigmaErrorCode; message: string } & FigmaErrorContext {
+    return { code: this.code, message: this.message, ...this.context };
+  }
+}
+
+export class AuthInvalidError extends FigmaError {
+  constructor(message: string, context: FigmaErrorContext = {}) {
+    super('AUTH_INVALID', message, context);
+  }
+}
+
+export class FileNotFoundError extends FigmaError {
+  constructor(message: string, context: FigmaErrorContext = {}) {
+    super('FILE_NOT_FOUND', message, context);
+  }
+}
+
+export class NodeNotFoundError extends FigmaError {
+  constructor(message: string, context: FigmaErrorContext = {}) {
+    super('NODE_NOT_FOUND', message, context);
+  }
+}
+
+export class RateLimitedError extends FigmaError {
+  constructor(message: string, context: FigmaErrorContext = {}) {
+    super('RATE_LIMITED', message, context);
+  }
+}
+
+export class RenderFailedError extends FigmaError {
+  constructor(message: string, context: FigmaErrorContext = {}) {
+    super('RENDER_FAILED', message, context);
+  }
+}
+
+export class RenderTimeoutError extends FigmaError {
+  constructor(message: string, context: FigmaErrorContext = {}) {
+    super('RENDER_TIMEOUT', message, context);
+  }
+}
+
+export class InvalidUrlError extends FigmaError {
+  constructor(message: string, context: FigmaErrorContext = {}) {
+    super('INVALID_URL', message, context);
+  }
+}
+
+export class InvalidArgumentError extends FigmaError {
+  constructor(message: string, context: FigmaErrorContext = {}) {
+    super('INVALID_ARGUMENT', message, context);
+  }
+}
+
+export class FigmaApiError extends FigmaError {
+  constructor(message: string, context: FigmaErrorContext = {}) {
+    super('API_ERROR', message, context);
+  }
+}
+
+/**
+ * Build the error for a failed Figma API response
+ * @param response Response with a non-2xx status
+ * @param action What was attempted, e.g. "fetch nodes"
+ * @param context File key and node ID the request was for
+ * @param render Whether the request rendered images, so failures are render errors
+ */
+export async function errorFromResponse(
+  response: Response,
+  action: string,
+  context: FigmaErrorContext = {},
+  render = false,
+): Promise<FigmaError> {
+  // Figma explains most failures in an { err } or { message } body
+  let detail = response.statusText;
+  try {
+    const body = (await response.json()) as { err?: string; message?: string };
+    detail = body.err || body.message || detail;
+  } catch {
+    // Not JSON; keep the status text
+  }
+
+  const message = `Failed to ${action}: ${response.status} ${detail}`.trim();
+  const withStatus = { ...context, status: response.status };
+
+  switch (response.status) {
+    case 401:
+    case 403:
+      return new AuthInvalidError(message, withStatus);
+    case 404:
+      return new FileNotFoundError(message, withStatus);
+    case 429:
+      return new RateLimitedError(message, {
+        ...withStatus,
+        retryAfter: parseRetryAfter(response.headers.get('Retry-After')) ?? undefined,
+      });
+  }
+
+  return render ? renderError(message, withStatus) : new FigmaApiError(message, withStatus);
+}
+
+/**
+ * Build the error for a render Figma reported in the { err } field of a response
+ */
+export function renderError(message: string, context: FigmaErrorContext = {}): FigmaError {
+  return /time(d)?\s*out/i.test(message)
+    ? new RenderTimeoutError(message, context)
+    : new RenderFailedError(message, context);
+}
+
+/**
+ * Parse a Retry-After header given in seconds
+ * @returns Seconds, or null if missing or not a number
+ */
+export function parseRetryAfter(value: string | null): number | null {
+  if (!value) {
+    return null;
+  }
+  const seconds = Number.parseInt(value, 10);
+  return Number.isNaN(seconds) || seconds < 0 ? null : seconds;
+}
+
+/**
+ * Describe any thrown value as a JSON-safe object with a code, leaving out stacks
+ */
+export function describeError(
+  error: unknown,
+): { code: string; message: string } & FigmaErrorContext {
+  if (error instanceof FigmaError) {
+    return error.toJSON();
+  }
+  if (error instanceof Error && error.name === 'AbortError') {
+    return { code: 'CANCELLED', message: error.message };
+  }
+  return {
+    code: 'INTERNAL_ERROR',
+    message: error instanceof Error ? error.message : String(error),
+  };
+}
@@ -12,45 +12,109 @@
 // See the License for the specific language governing permissions and
 // limitations under the License.
 
+import { splitIntoBatches } from '../utils/batch.js';
+import { type Logger, defaultLogger } from '../utils/logger.js';
 import type { CacheManager } from './cache.js';
-import type { ExportOptions, GetImagesResponse, GetNodesResponse } from './types.js';
+import {
+  FigmaApiError,
+  InvalidArgumentError,
+  RenderTimeoutError,
+  errorFromResponse,
+  renderError,
+} from './errors.js';
+import { validateNodesResponse } from './node-schema.js';
+import { type EndpointClass, type RateLimiter, sharedRateLimiter } from './rate-limiter.js';
+import { DEFAULT_RETRY_POLICY, type RetryPolicy, fetchWithRetry } from './retry.js';
+import type {
+  ExportOptions,
+  FileVersion,
+  GetFileMetaResponse,
+  GetFileResponse,
+  GetImagesResponse,
+  GetNodesResponse,
+  ImageCacheKey,
+  Node,
+} from './types.js';
 
 export class FigmaApiClient {
   private token: string;
   private baseUrl = 'https://api.figma.com/v1';
   private cacheManager: CacheManager;
+  // Node IDs per request, bounded by count and by query string length
+  private maxBatchSize = 50;
+  private maxIdsLength = 2000;
+  private logger: Logger;
+  private retryPolicy: RetryPolicy;
+  private rateLimiter: RateLimiter;
 
-  constructor(token: string, cacheManager: CacheManager) {
+  /**
+   * @param rateLimiter Limiter for API requests; by default the one shared by all clients
+   */
+  constructor(
+    token: string,
+    cacheManager: CacheManager,
+    logger: Logger = defaultLogger,
+    retryPolicy: Partial<RetryPolicy> = {},
+    rateLimiter: RateLimiter = sharedRateLimiter,
+  ) {
     this.token = token;
     this.cacheManager = cacheManager;
+    this.logger = logger;
+    this.retryPolicy = { ...DEFAULT_RETRY_POLICY, ...retryPolicy };
+    this.rateLimiter = rateLimiter;
   }
 
   /**
    * Get node information with caching support
+   * @param signal Stops rate limit waits, retries and requests when aborted
    */
-  async getNodes(fileKey: string, nodeIds: string[], useCache = true): Promise<GetNodesResponse> {
-    // Try cache first
-    if (useCache) {
-      const cached = this.cacheManager.get(fileKey, nodeIds);
+  async getNodes(
+    fileKey: string,
+    nodeIds: string[],
+    useCache = true,
+    signal?: AbortSignal,
+  ): Promise<GetNodesResponse> {
+    // Try cache first, as long as the file hasn't changed since it was fetched
+    if (useCache && this.cacheManager.has(fileKey, nodeIds)) {
+      const current = await this.getFileVersion(fileKey, signal);
+      const cached = this.cacheManager.get(fileKey, nodeIds, current ?? undefined);
       if (cached) {
-        console.log('Using cached node data');
+        this.logger.info(
+          `Using cached node data (version ${cached.version ?? cached.lastModified})`,
+        );
         return cached;
       }
     }
 
-    const url = `${this.baseUrl}/files/${fileKey}/nodes?ids=${nodeIds.join(',')}`;
-    const response = await this.fetchWithRetry(url);
+    // Fetch in batches and merge the node maps into one response
+    const responses: GetNodesResponse[] = [];
+    for (const batch of splitIntoBatches(nodeIds, this.maxBatchSize, this.maxIdsLength)) {
+      const url = `${this.baseUrl}/files/${fileKey}/nodes?ids=${batch.join(',')}`;
+      const response = await this.request(url, 'files', signal);
 
-    if (!response.ok) {
-      throw new Error(`Failed to fetch nodes: ${response.status} ${response.statusText}`);
-    }
+      if (!response.ok) {
+        throw await errorFromResponse(response, 'fetch nodes', { fileKey });
+      }
+
+      const batchData = validateNodesResponse(await response.json(), this.logger);
 
-    const data = (await response.json()) as GetNodesResponse;
+      if (batchData.err) {
+        throw new FigmaApiError(`Figma API error: ${batchData.err}`, { fileKey });
+      }
+
+      responses.push(batchData);
+    }
 
-    if (data.err) {
-      throw new Error(`Figma API error: ${data.err}`);
+    const [first] = responses;
+    if (!first) {
+      throw new InvalidArgumentError('Failed to fetch nodes: no node IDs given', { fileKey });
     }
 
+    const data: GetNodesResponse = {
+      ...first,
+      nodes: Object.assign({}, ...responses.map((batchData) => batchData.nodes)),
+    };
+
     // Cache the response
     if (useCache) {
       this.cacheManager.set(fileKey, nodeIds, data);
@@ -59,6 +123,57 @@ export class FigmaApiClient {
     return data;
   }
 
+  /**
+   * Get the file's document tree pruned to the given nodes, their ancestors and
+   * their descendants. Returns one document per batch of node IDs.
+   */
+  async getFileDocuments(
+    fileKey: string,
+    nodeIds: string[],
+    signal?: AbortSignal,
+  ): Promise<Node[]> {
+    const documents: Node[] = [];
+
+    for (const batch of splitIntoBatches(nodeIds, this.maxBatchSize, this.maxIdsLength)) {
+      const url = `${this.baseUrl}/files/${fileKey}?ids=${batch.join(',')}`;
+      const response = await this.request(url, 'files', signal);
+
+      if (!response.ok) {
+        throw await errorFromResponse(response, 'fetch file', { fileKey });
+      }
+
+      const data = (await response.json()) as GetFileResponse;
+
+      if (data.err) {
+        throw new FigmaApiError(`Figma API error: ${data.err}`, { fileKey });
+      }
+
+      documents.push(data.document);
+    }
+
+    return documents;
+  }
+
+  /**
+   * Get the file's current version with a cheap metadata request.
+   * Returns null if it cannot be determined, so callers fall back to the TTL.
+   * Aborting still throws.
+   */
+  async getFileVersion(fileKey: string, signal?: AbortSignal): Promise<FileVersion | null> {
+    try {
+      const response = await this.request(`${this.baseUrl}/files/${fileKey}/meta`, 'files', signal);
+      if (!response.ok) {
+        return null;
+      }
+
+      const data = (await response.json()) as GetFileMetaResponse;
+      return { version: data.file.version, lastModified: data.file.last_touched_at };
+    } catch {
+      signal?.throwIfAborted();
+      return null;
+    }
+  }
+
   /**
    * Get image rendering URLs
    */
@@ -66,33 +181,49 @@ export class FigmaApiClient {
     fileKey: string,
     nodeIds: string[],
     options: Partial<ExportOptions>,
+    signal?: AbortSignal,
   ): Promise<Record<string, string>> {
     const { scale = 2, format = 'png' } = options;
-    const url = `${this.baseUrl}/images/${fileKey}?ids=${nodeIds.join(',')}&format=${format}&scale=${scale}`;
+    const images: Record<string, string> = {};
 
-    const response = await this.fetchWithRetry(url);
+    for (const batch of splitIntoBatches(nodeIds, this.maxBatchSize, this.maxIdsLength)) {
+      const url = `${this.baseUrl}/images/${fileKey}?ids=${batch.join(',')}&format=${format}&scale=${scale}`;
 
-    if (!response.ok) {
-      throw new Error(`Failed to fetch image URLs: ${response.status} ${response.statusText}`);
-    }
+      const response = await this.request(url, 'images', signal);
+
+      // A single failing node fails the whole batch, so only name it when it is alone
+      const context = { fileKey, nodeId: batch.length === 1 ? batch[0] : undefined };
+      if (!response.ok) {
+        throw await errorFromResponse(response, 'render images', context, true);
+      }
 
-    const data = (await response.json()) as GetImagesResponse;
+      const data = (await response.json()) as GetImagesResponse;
 
-    if (data.err) {
-      throw new Error(`Figma API error: ${data.err}`);
+      if (data.err) {
+        throw renderError(`Failed to render images: ${data.err}`, context);
+      }
+
+      Object.assign(images, data.images);
     }
 
-    return data.images;
+    return images;
   }
 
   /**
-   * Download image from URL
+   * Download image from URL, retrying failed and stalled downloads
    */
-  async downloadImage(url: string): Promise<Buffer> {
-    const response = await fetch(url);
+  async downloadImage(url: string, signal?: AbortSignal): Promise<Buffer> {
+    const response = await fetchWithRetry(url, {
+      policy: this.retryPolicy,
+      logger: this.logger,
+      signal,
+    });
 
     if (!response.ok) {
-      throw new Error(`Failed to download image: ${response.status} ${response.statusText}`);
+      throw new FigmaApiError(
+        `Failed to download image: ${response.status} ${response.statusText}`,
+        { status: response.status },
+      );
     }
 
     const arrayBuffer = await response.arrayBuffer();
@@ -100,42 +231,35 @@ export class FigmaApiClient {
   }
 
   /**
-   * Fetch with retry logic for rate limiting (429)
+   * Get a previously rendered image from the cache
    */
-  private async fetchWithRetry(url: string, maxRetries = 3, retryDelay = 1000): Promise<Response> {
-    let lastError: Error | null = null;
-
-    for (let attempt = 0; attempt < maxRetries; attempt++) {
-      try {
-        const response = await fetch(url, {
-          headers: {
-            'X-FIGMA-TOKEN': this.token,
-          },
-        });
-
-        // Handle rate limiting
-        if (response.status === 429) {
-          const retryAfter = response.headers.get('Retry-After');
-          const waitTime = retryAfter ? Number.parseInt(retryAfter, 10) * 1000 : retryDelay;
-
-          console.log(`Rate limited. Retrying after ${waitTime}ms...`);
-          await this.sleep(waitTime);
-          continue;
-        }
-
-        return response;
-      } catch (error) {
-        lastError = error instanceof Error ? error : new Error(String(error));
-        if (attempt < maxRetries - 1) {
-          await this.sleep(retryDelay);
-        }
-      }
-    }
+  getCachedImage(key: ImageCacheKey): Buffer | null {
+    return this.cacheManager.getImage(key);
+  }
 
-    throw lastError || new Error('Max retries exceeded');
+  /**
+   * Store a rendered image in the cache
+   */
+  cacheImage(key: ImageCacheKey, data: Buffer): void {
+    this.cacheManager.setImage(key, data);
   }
 
-  private sleep(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
+  /**
+   * Call the Figma API with the client's token and retry policy
+   */
+  private request(
+    url: string,
+    endpoint: EndpointClass = 'files',
+    signal?: AbortSignal,
+  ): Promise<Response> {
+    return fetchWithRetry(url, {
+      headers: { 'X-FIGMA-TOKEN': this.token },
+      policy: this.retryPolicy,
+      rateLimit: { limiter: this.rateLimiter, endpoint },
+      logger: this.logger,
+      signal,
+      // A render that takes too long is a render failure, not an API outage
+      timeoutError: endpoint === 'images' ? RenderTimeoutError : FigmaApiError,
+    });
   }
 }
@@ -0,0 +1,185 @@
+// Copyright 2025
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { z } from 'zod';
+import type { Logger } from '../utils/logger.js';
+import type { GetNodesResponse } from './types.js';
+
+// Runtime schemas for the node types in types.ts. Objects are loose: Figma adds
+// properties all the time, and only changes to the ones we read count as drift.
+
+const ColorSchema = z.object({ r: z.number(), g: z.number(), b: z.number(), a: z.number() });
+const VectorSchema = z.object({ x: z.number(), y: z.number() });
+const BoundsSchema = z.object({
+  x: z.number(),
+  y: z.number(),
+  width: z.number(),
+  height: z.number(),
+});
+
+const PaintSchema = z.looseObject({
+  type: z.string(),
+  visible: z.boolean().optional(),
+  opacity: z.number().optional(),
+  color: ColorSchema.optional(),
+  gradientHandlePositions: z.array(VectorSchema).optional(),
+  gradientStops: z.array(z.object({ position: z.number(), color: ColorSchema })).optional(),
+});
+
+const EffectSchema = z.looseObject({
+  type: z.enum(['DROP_SHADOW', 'INNER_SHADOW', 'LAYER_BLUR', 'BACKGROUND_BLUR']),
+  visible: z.boolean().optional(),
+  radius: z.number(),
+  color: ColorSchema.optional(),
+  offset: VectorSchema.optional(),
+  spread: z.number().optional(),
+});
+
+const TypeStyleSchema = z.looseObject({
+  fontFamily: z.string().optional(),
+  fontWeight: z.number().optional(),
+  fontSize: z.number().optional(),
+  italic: z.boolean().optional(),
+  letterSpacing: z.number().optional(),
+  lineHeightPx: z.number().optional(),
+  lineHeightPercentFontSize: z.number().optional(),
+  lineHeightUnit: z.enum(['PIXELS', 'FONT_SIZE_%', 'INTRINSIC_%']).optional(),
+});
+
+const base = {
+  id: z.string(),
+  name: z.string(),
+  visible: z.boolean().optional(),
+  absoluteBoundingBox: BoundsSchema.nullable().optional(),
+  children: z.array(z.lazy(() => NodeSchema)).optional(),
+};
+
+const scene = {
+  ...base,
+  fills: z.array(PaintSchema).optional(),
+  strokes: z.array(PaintSchema).optional(),
+  effects: z.array(EffectSchema).optional(),
+  opacity: z.number().optional(),
+  styles: z.record(z.string(), z.string()).optional(),
+};
+
+const container = {
+  cornerRadius: z.number().optional(),
+  layoutMode: z.enum(['NONE', 'HORIZONTAL', 'VERTICAL']).optional(),
+  itemSpacing: z.number().optional(),
+  paddingLeft: z.number().optional(),
+  paddingRight: z.number().optional(),
+  paddingTop: z.number().optional(),
+  paddingBottom: z.number().optional(),
+};
+
+// Declared as ZodType so the recursion through `children` type-checks
+const NodeSchema: z.ZodType = z.lazy(() =>
+  z.discriminatedUnion('type', [
+    z.looseObject({ ...base, type: z.literal('DOCUMENT') }),
+    z.looseObject({ ...base, type: z.literal('CANVAS'), backgroundColor: ColorSchema.optional() }),
+    z.looseObject({
+      ...scene,
+      ...container,
+      type: z.enum(['FRAME', 'GROUP', 'SECTION', 'COMPONENT', 'COMPONENT_SET']),
+    }),
+    z.looseObject({ ...scene, ...container, type: z.literal('INSTANCE'), componentId: z.string() }),
+    z.looseObject({
+      ...scene,
+      type: z.literal('TEXT'),
+      characters: z.string(),
+      style: TypeStyleSchema,
+      characterStyleOverrides: z.array(z.number()).optional(),
+      styleOverrideTable: z.record(z.string(), TypeStyleSchema).optional(),
+    }),
+    z.looseObject({
+      ...scene,
+      cornerRadius: z.number().optional(),
+      type: z.enum([
+        'RECTANGLE',
+        'ELLIPSE',
+        'VECTOR',
+        'STAR',
+        'LINE',
+        'REGULAR_POLYGON',
+        'BOOLEAN_OPERATION',
+      ]),
+    }),
+    z.looseObject({
+      ...scene,
+      type: z.enum([
+        'STICKY',
+        'SHAPE_WITH_TEXT',
+        'CONNECTOR',
+        'TABLE',
+        'TABLE_CELL',
+        'WASHI_TAPE',
+        'STAMP',
+        'HIGHLIGHT',
+        'EMBED',
+        'LINK_UNFURL',
+        'WIDGET',
+      ]),
+    }),
+    z.looseObject({ ...base, type: z.literal('SLICE') }),
+  ]),
+);
+
+const StyleSchema = z.looseObject({
+  key: z.string(),
+  name: z.string(),
+  description: z.string(),
+  styleType: z.enum(['FILL', 'TEXT', 'EFFECT', 'GRID']),
+});
+
+export const GetNodesResponseSchema = z.looseObject({
+  name: z.string(),
+  lastModified: z.string(),
+  version: z.string().optional(),
+  nodes: z.record(
+    z.string(),
+    z
+      .looseObject({
+        document: NodeSchema,
+        schemaVersion: z.number(),
+        styles: z.record(z.string(), StyleSchema).optional(),
+      })
+      .nullable(),
+  ),
+});
+
+// Issues listed in a drift warning; the rest are only counted
+const MAX_REPORTED_ISSUES = 5;
+
+/**
+ * Check a nodes response against the schema. Differences are logged as a warning and
+ * the data is returned as is, so a change on Figma's side degrades features that read
+ * the changed properties instead of failing every request.
+ * @param data Parsed response body
+ * @param logger Logger for the drift warning
+ * @returns The response, typed
+ */
+export function validateNodesResponse(data: unknown, logger: Logger): GetNodesResponse {
+  const result = GetNodesResponseSchema.safeParse(data);
+  if (!result.success) {
+    const issues = result.error.issues.map(
+      (issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`,
+    );
+    logger.warn(
+      `Figma nodes response does not match the expected schema (${issues.length} issue(s)); continuing with it as is`,
+      { issues: issues.slice(0, MAX_REPORTED_ISSUES) },
+    );
+  }
+  return data as GetNodesResponse;
+}
@@ -0,0 +1,60 @@
+// Copyright 2025
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import type { ContainerNode, Node, SceneNode, ShapeNode } from './types.js';
+
+/**
+ * Check whether a node is drawn on a page, i.e. has fills, effects and constraints
+ */
+export function isSceneNode(node: Node): node is SceneNode {
+  return node.type !== 'DOCUMENT' && node.type !== 'CANVAS' && node.type !== 'SLICE';
+}
+
+/**
+ * Check whether a node is a frame, component or instance, which can use auto layout
+ */
+export function isContainerNode(node: Node): node is ContainerNode {
+  return (
+    node.type === 'FRAME' ||
+    node.type === 'GROUP' ||
+    node.type === 'SECTION' ||
+    node.type === 'COMPONENT' ||
+    node.type === 'COMPONENT_SET' ||
+    node.type === 'INSTANCE'
+  );
+}
+
+const SHAPE_TYPES = new Set<string>([
+  'RECTANGLE',
+  'ELLIPSE',
+  'VECTOR',
+  'STAR',
+  'LINE',
+  'REGULAR_POLYGON',
+  'BOOLEAN_OPERATION',
+] satisfies ShapeNode['type'][]);
+
+/**
+ * Check whether a node is a vector shape
+ */
+export function isShapeNode(node: Node): node is ShapeNode {
+  return SHAPE_TYPES.has(node.type);
+}
+
+/**
+ * Check whether a node can have rounded corners
+ */
+export function hasCorners(node: Node): node is ContainerNode | ShapeNode {
+  return isContainerNode(node) || isShapeNode(node);
+}
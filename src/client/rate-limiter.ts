@@ -0,0 +1,152 @@
+// Copyright 2025
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { setTimeout as sleep } from 'node:timers/promises';
+import { type Logger, defaultLogger } from '../utils/logger.js';
+
+// Figma limits file/node reads and image renders separately
+export type EndpointClass = 'files' | 'images';
+
+export interface RateLimit {
+  requestsPerMinute: number; // Sustained rate
+  burst: number; // Requests allowed at once after a quiet period
+}
+
+export const DEFAULT_RATE_LIMITS: Record<EndpointClass, RateLimit> = {
+  files: { requestsPerMinute: 30, burst: 10 },
+  images: { requestsPerMinute: 20, burst: 5 },
+};
+
+// Waits at least this long are logged at info level, shorter ones at debug
+const SLOW_WAIT_MS = 2_000;
+
+interface Bucket {
+  limit: RateLimit;
+  tokens: number;
+  refilledAt: number;
+  queued: number; // Requests waiting for a token
+  tail: Promise<void>; // Last request in line, so tokens go out in order
+}
+
+/**
+ * Token buckets per endpoint class, shared by every client in the process.
+ * A 429 pauses all classes until its Retry-After has passed.
+ */
+export class RateLimiter {
+  private buckets: Record<EndpointClass, Bucket>;
+  private pausedUntil = 0;
+
+  constructor(limits: Partial<Record<EndpointClass, Partial<RateLimit>>> = {}) {
+    const now = Date.now();
+    const bucket = (endpoint: EndpointClass): Bucket => {
+      const limit = { ...DEFAULT_RATE_LIMITS[endpoint], ...limits[endpoint] };
+      return { limit, tokens: limit.burst, refilledAt: now, queued: 0, tail: Promise.resolve() };
+    };
+    this.buckets = { files: bucket('files'), images: bucket('images') };
+  }
+
+  /**
+   * Change the limits of endpoint classes; waiting requests pick them up on their next check
+   */
+  configure(limits: Partial<Record<EndpointClass, Partial<RateLimit>>>): void {
+    for (const endpoint of Object.keys(limits) as EndpointClass[]) {
+      const bucket = this.buckets[endpoint];
+      this.refill(bucket);
+      bucket.limit = { ...bucket.limit, ...limits[endpoint] };
+      bucket.tokens = Math.min(bucket.tokens, bucket.limit.burst);
+    }
+  }
+
+  /**
+   * Wait for a token of the endpoint class, in the order requests arrived
+   * @param endpoint Endpoint class of the request
+   * @param options Logger to report queueing to, and a signal to stop waiting with
+   */
+  async acquire(
+    endpoint: EndpointClass,
+    options: { logger?: Logger; signal?: AbortSignal } = {},
+  ): Promise<void> {
+    const { logger = defaultLogger, signal } = options;
+    const bucket = this.buckets[endpoint];
+
+    bucket.queued++;
+    const turn = bucket.tail.then(() => this.take(bucket, endpoint, logger, signal));
+    bucket.tail = turn.catch(() => {});
+    try {
+      await turn;
+    } finally {
+      bucket.queued--;
+    }
+  }
+
+  /**
+   * Hold every request, of all endpoint classes, for `ms` milliseconds
+   */
+  pause(ms: number, logger: Logger = defaultLogger): void {
+    const until = Date.now() + ms;
+    if (until > this.pausedUntil) {
+      this.pausedUntil = until;
+      logger.warn(`Rate limited by Figma. Pausing all requests for ${ms}ms`);
+    }
+  }
+
+  /**
+   * Requests currently waiting per endpoint class
+   */
+  queueDepth(): Record<EndpointClass, number> {
+    return { files: this.buckets.files.queued, images: this.buckets.images.queued };
+  }
+
+  private async take(
+    bucket: Bucket,
+    endpoint: EndpointClass,
+    logger: Logger,
+    signal?: AbortSignal,
+  ): Promise<void> {
+    for (;;) {
+      signal?.throwIfAborted();
+      this.refill(bucket);
+
+      const msPerToken = 60_000 / bucket.limit.requestsPerMinute;
+      const wait = Math.max(
+        this.pausedUntil - Date.now(),
+        bucket.tokens >= 1 ? 0 : Math.ceil((1 - bucket.tokens) * msPerToken),
+      );
+      if (wait <= 0) {
+        bucket.tokens -= 1;
+        return;
+      }
+
+      const message = `Rate limit: waiting ${wait}ms for ${endpoint} (${bucket.queued} queued)`;
+      if (wait >= SLOW_WAIT_MS) {
+        logger.info(message);
+      } else {
+        logger.debug(message);
+      }
+      await sleep(wait, undefined, { signal });
+    }
+  }
+
+  private refill(bucket: Bucket): void {
+    const now = Date.now();
+    const earned = ((now - bucket.refilledAt) / 60_000) * bucket.limit.requestsPerMinute;
+    bucket.tokens = Math.min(bucket.limit.burst, bucket.tokens + earned);
+    bucket.refilledAt = now;
+  }
+}
+
+/**
+ * Limiter used by every client unless one is passed in
+ */
+export const sharedRateLimiter = new RateLimiter();
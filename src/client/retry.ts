@@ -0,0 +1,168 @@
+// Copyright 2025
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { setTimeout as sleep } from 'node:timers/promises';
+import { type Logger, defaultLogger } from '../utils/logger.js';
+import { FigmaApiError, type FigmaError, parseRetryAfter } from './errors.js';
+import type { EndpointClass, RateLimiter } from './rate-limiter.js';
+
+export interface RetryPolicy {
+  maxAttempts: number; // Attempts per request, including the first
+  baseDelayMs: number; // Wait before the first retry; doubles on each retry
+  maxDelayMs: number; // Cap on a single wait
+  maxTotalWaitMs: number; // Give up rather than wait longer than this in total
+  timeoutMs: number; // Per attempt, until the whole body is read
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 4,
+  baseDelayMs: 1000,
+  maxDelayMs: 30_000,
+  maxTotalWaitMs: 60_000,
+  timeoutMs: 30_000,
+};
+
+/**
+ * Whether a response status is worth retrying: rate limits and server errors
+ */
+export function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+/**
+ * Wait before retry number `retry` (1-based): exponential, with the upper half jittered
+ * so clients that failed together do not retry together
+ */
+export function backoffDelay(policy: RetryPolicy, retry: number, random = Math.random): number {
+  const exponential = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (retry - 1));
+  return Math.round(exponential / 2 + (random() * exponential) / 2);
+}
+
+/**
+ * Fetch a URL, retrying timeouts, network errors, 429 and 5xx responses.
+ * Each attempt reads the whole body under its own timeout, so a stalled download is
+ * retried too. When retries run out the last response is returned, for the caller to
+ * turn into an error with its status and Retry-After.
+ * @param url URL to fetch
+ * @param options Request headers, retry policy, rate limiter, logger, a signal to cancel with
+ * and the error class thrown when an attempt times out (default: FigmaApiError)
+ * @returns Response with the body buffered
+ */
+export async function fetchWithRetry(
+  url: string,
+  options: {
+    headers?: Record<string, string>;
+    policy?: RetryPolicy;
+    rateLimit?: { limiter: RateLimiter; endpoint: EndpointClass }; // Taken before every attempt
+    logger?: Logger;
+    signal?: AbortSignal;
+    timeoutError?: new (message: string) => FigmaError;
+  } = {},
+): Promise<Response> {
+  const {
+    headers,
+    policy = DEFAULT_RETRY_POLICY,
+    rateLimit,
+    logger = defaultLogger,
+    signal,
+    timeoutError = FigmaApiError,
+  } = options;
+  let waited = 0;
+
+  for (let attempt = 1; ; attempt++) {
+    signal?.throwIfAborted();
+    await rateLimit?.limiter.acquire(rateLimit.endpoint, { logger, signal });
+
+    let response: Response | null = null;
+    let failure: unknown = null;
+    try {
+      response = await fetchOnce(url, headers, policy.timeoutMs, timeoutError, signal);
+      if (!isRetryableStatus(response.status)) {
+        return response;
+      }
+    } catch (error) {
+      if (signal?.aborted) {
+        throw error;
+      }
+      failure = error;
+    }
+
+    // Figma's Retry-After takes precedence over our own backoff
+    const retryAfter = response ? parseRetryAfter(response.headers.get('Retry-After')) : null;
+    const delay = retryAfter !== null ? retryAfter * 1000 : backoffDelay(policy, attempt);
+    if (response?.status === 429) {
+      // Other requests would only be rate limited too
+      rateLimit?.limiter.pause(delay, logger);
+    }
+    const reason = response
+      ? `${response.status} ${response.statusText}`
+      : failure instanceof Error
+        ? failure.message
+        : String(failure);
+
+    if (attempt >= policy.maxAttempts || waited + delay > policy.maxTotalWaitMs) {
+      if (response) {
+        return response;
+      }
+      throw failure;
+    }
+
+    logger.warn(
+      `Request failed (${reason}). Retrying in ${delay}ms (attempt ${attempt + 1}/${policy.maxAttempts})...`,
+    );
+    await sleep(delay, undefined, { signal });
+    waited += delay;
+  }
+}
+
+/**
+ * One attempt, aborted after `timeoutMs` or when the caller's signal aborts
+ */
+async function fetchOnce(
+  url: string,
+  headers: Record<string, string> | undefined,
+  timeoutMs: number,
+  timeoutError: new (message: string) => FigmaError,
+  signal?: AbortSignal,
+): Promise<Response> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  const onAbort = () => controller.abort(signal?.reason);
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  try {
+    const response = await fetch(url, { headers, signal: controller.signal });
+    const body = await response.arrayBuffer();
+    // A 204 response can't be rebuilt with a body
+    return new Response(response.status === 204 ? null : body, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+    });
+  } catch (error) {
+    if (controller.signal.aborted && !signal?.aborted) {
+      throw new timeoutError(`Request timed out after ${timeoutMs}ms: ${redactQuery(url)}`);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
+}
+
+// Render URLs are signed; keep the signature out of logs and errors
+function redactQuery(url: string): string {
+  const index = url.indexOf('?');
+  return index === -1 ? url : url.slice(0, index);
+}
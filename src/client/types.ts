@@ -17,8 +17,17 @@
 export interface GetNodesResponse {
   name: string;
   lastModified: string;
+  version?: string;
   thumbnailUrl: string;
-  nodes: Record<string, NodeData>;
+  nodes: Record<string, NodeData | null>; // null for IDs not in the file
+  err?: string;
+}
+
+export interface GetFileResponse {
+  name: string;
+  lastModified: string;
+  version?: string;
+  document: Node;
   err?: string;
 }
 
@@ -30,14 +39,225 @@ export interface NodeData {
   styles?: Record<string, Style>;
 }
 
-export interface Node {
+// Nodes, discriminated by `type`. Properties follow the REST API; all but the
+// identifying ones are optional, since Figma leaves out defaults.
+
+interface BaseNode {
   id: string;
   name: string;
-  type: string;
   visible?: boolean;
   absoluteBoundingBox?: AbsoluteBoundingBox;
   children?: Node[];
-  [key: string]: unknown;
+}
+
+// Properties of everything drawn on a page
+export interface SceneNodeProperties {
+  absoluteRenderBounds?: AbsoluteBoundingBox | null;
+  constraints?: LayoutConstraint;
+  fills?: Paint[];
+  strokes?: Paint[];
+  strokeWeight?: number;
+  strokeAlign?: 'INSIDE' | 'OUTSIDE' | 'CENTER';
+  effects?: Effect[];
+  opacity?: number;
+  blendMode?: string;
+  isMask?: boolean;
+  rotation?: number;
+  styles?: Record<string, string>; // Style IDs by what they apply to, e.g. fill -> "1:23"
+  // As a child of an auto layout frame
+  layoutAlign?: 'INHERIT' | 'STRETCH' | 'MIN' | 'CENTER' | 'MAX';
+  layoutGrow?: number;
+  layoutPositioning?: 'AUTO' | 'ABSOLUTE';
+  layoutSizingHorizontal?: LayoutSizing;
+  layoutSizingVertical?: LayoutSizing;
+}
+
+export interface CornerProperties {
+  cornerRadius?: number;
+  rectangleCornerRadii?: [number, number, number, number]; // Top left, clockwise
+}
+
+export interface AutoLayoutProperties {
+  layoutMode?: 'NONE' | 'HORIZONTAL' | 'VERTICAL';
+  layoutWrap?: 'NO_WRAP' | 'WRAP';
+  primaryAxisSizingMode?: 'FIXED' | 'AUTO';
+  counterAxisSizingMode?: 'FIXED' | 'AUTO';
+  primaryAxisAlignItems?: 'MIN' | 'CENTER' | 'MAX' | 'SPACE_BETWEEN';
+  counterAxisAlignItems?: 'MIN' | 'CENTER' | 'MAX' | 'BASELINE';
+  itemSpacing?: number;
+  counterAxisSpacing?: number;
+  paddingLeft?: number;
+  paddingRight?: number;
+  paddingTop?: number;
+  paddingBottom?: number;
+  clipsContent?: boolean;
+}
+
+export type LayoutSizing = 'FIXED' | 'HUG' | 'FILL';
+
+export interface LayoutConstraint {
+  vertical: 'TOP' | 'BOTTOM' | 'CENTER' | 'TOP_BOTTOM' | 'SCALE';
+  horizontal: 'LEFT' | 'RIGHT' | 'CENTER' | 'LEFT_RIGHT' | 'SCALE';
+}
+
+export interface DocumentNode extends BaseNode {
+  type: 'DOCUMENT';
+  children: CanvasNode[];
+}
+
+// A page
+export interface CanvasNode extends BaseNode {
+  type: 'CANVAS';
+  children: Node[];
+  backgroundColor?: Color;
+}
+
+export interface FrameNode
+  extends BaseNode,
+    SceneNodeProperties,
+    CornerProperties,
+    AutoLayoutProperties {
+  type: 'FRAME' | 'GROUP' | 'SECTION';
+}
+
+export interface ComponentNode
+  extends BaseNode,
+    SceneNodeProperties,
+    CornerProperties,
+    AutoLayoutProperties {
+  type: 'COMPONENT' | 'COMPONENT_SET';
+  componentPropertyDefinitions?: Record<string, ComponentPropertyDefinition>;
+}
+
+export interface InstanceNode
+  extends BaseNode,
+    SceneNodeProperties,
+    CornerProperties,
+    AutoLayoutProperties {
+  type: 'INSTANCE';
+  componentId: string;
+  componentProperties?: Record<string, ComponentProperty>;
+}
+
+export interface TextNode extends BaseNode, SceneNodeProperties {
+  type: 'TEXT';
+  characters: string;
+  style: TypeStyle;
+  characterStyleOverrides?: number[]; // Per character; 0 means the node's own style
+  styleOverrideTable?: Record<string, TypeStyle>;
+}
+
+export interface ShapeNode extends BaseNode, SceneNodeProperties, CornerProperties {
+  type:
+    | 'RECTANGLE'
+    | 'ELLIPSE'
+    | 'VECTOR'
+    | 'STAR'
+    | 'LINE'
+    | 'REGULAR_POLYGON'
+    | 'BOOLEAN_OPERATION';
+  booleanOperation?: 'UNION' | 'INTERSECT' | 'SUBTRACT' | 'EXCLUDE';
+}
+
+// FigJam objects
+export interface BoardNode extends BaseNode, SceneNodeProperties {
+  type:
+    | 'STICKY'
+    | 'SHAPE_WITH_TEXT'
+    | 'CONNECTOR'
+    | 'TABLE'
+    | 'TABLE_CELL'
+    | 'WASHI_TAPE'
+    | 'STAMP'
+    | 'HIGHLIGHT'
+    | 'EMBED'
+    | 'LINK_UNFURL'
+    | 'WIDGET';
+}
+
+export interface SliceNode extends BaseNode {
+  type: 'SLICE';
+}
+
+export type Node =
+  | DocumentNode
+  | CanvasNode
+  | FrameNode
+  | ComponentNode
+  | InstanceNode
+  | TextNode
+  | ShapeNode
+  | BoardNode
+  | SliceNode;
+
+export type NodeType = Node['type'];
+
+// Nodes drawn on a page, with fills, effects and constraints
+export type SceneNode = FrameNode | ComponentNode | InstanceNode | TextNode | ShapeNode | BoardNode;
+
+// Nodes that contain other nodes and can use auto layout
+export type ContainerNode = FrameNode | ComponentNode | InstanceNode;
+
+export interface ComponentPropertyDefinition {
+  type: 'BOOLEAN' | 'TEXT' | 'INSTANCE_SWAP' | 'VARIANT';
+  defaultValue: boolean | string;
+  variantOptions?: string[];
+}
+
+export interface ComponentProperty {
+  type: ComponentPropertyDefinition['type'];
+  value: boolean | string;
+}
+
+// Channels from 0 to 1
+export interface Color {
+  r: number;
+  g: number;
+  b: number;
+  a: number;
+}
+
+export interface Vector {
+  x: number;
+  y: number;
+}
+
+export interface ColorStop {
+  position: number;
+  color: Color;
+}
+
+export interface Paint {
+  type: string; // SOLID, GRADIENT_LINEAR, IMAGE, ...
+  visible?: boolean;
+  opacity?: number;
+  color?: Color;
+  gradientHandlePositions?: Vector[];
+  gradientStops?: ColorStop[];
+}
+
+export interface Effect {
+  type: 'DROP_SHADOW' | 'INNER_SHADOW' | 'LAYER_BLUR' | 'BACKGROUND_BLUR';
+  visible?: boolean;
+  radius: number;
+  color?: Color;
+  offset?: Vector;
+  spread?: number;
+}
+
+export interface TypeStyle {
+  fontFamily?: string;
+  fontWeight?: number;
+  fontSize?: number;
+  italic?: boolean;
+  letterSpacing?: number; // Pixels
+  lineHeightPx?: number;
+  lineHeightPercentFontSize?: number;
+  lineHeightUnit?: 'PIXELS' | 'FONT_SIZE_%' | 'INTRINSIC_%';
+  textCase?: string;
+  textDecoration?: string;
+  textAlignHorizontal?: 'LEFT' | 'RIGHT' | 'CENTER' | 'JUSTIFIED';
+  textAutoResize?: 'NONE' | 'WIDTH_AND_HEIGHT' | 'HEIGHT' | 'TRUNCATE'; // Left out for NONE
 }
 
 export interface AbsoluteBoundingBox {
@@ -66,7 +286,24 @@ export interface Style {
   key: string;
   name: string;
   description: string;
-  styleType: string;
+  styleType: 'FILL' | 'TEXT' | 'EFFECT' | 'GRID';
+}
+
+export interface GetFileMetaResponse {
+  file: {
+    name: string;
+    version?: string;
+    last_touched_at: string;
+    thumbnail_url?: string;
+  };
+  error?: boolean;
+  status?: number;
+}
+
+// Current version of a file, used to check cached data for freshness
+export interface FileVersion {
+  version?: string;
+  lastModified: string;
 }
 
 export interface GetImagesResponse {
@@ -76,11 +313,95 @@ export interface GetImagesResponse {
 }
 
 // Export Options
+export interface ExportVariant {
+  format: ExportOptions['format'];
+  scale: number;
+}
+
 export interface ExportOptions {
   scale: number;
   format: 'png' | 'jpg' | 'svg' | 'pdf';
   withMetadata: boolean;
   useCache: boolean;
+  concurrency: number; // Maximum simultaneous image downloads
+  fileNameTemplate: string; // e.g. {fileKey}_{nodeId}_{name}.{ext}
+  variants: ExportVariant[]; // Overrides format and scale when set
+}
+
+// A file written by an export
+export interface ExportedFile {
+  nodeId: string;
+  nodeName: string;
+  image: string;
+  metadata?: string;
+  format: string;
+  scale: number;
+  bytes: number;
+  contentHash: string; // SHA-256 of the image
+  cached: boolean; // Served from the image cache instead of rendered
+}
+
+// A node (or one variant of it) that was not exported, and why
+export interface SkippedExport {
+  nodeId: string;
+  format?: string;
+  scale?: number;
+  reason: string;
+}
+
+export interface ExportError {
+  nodeId: string;
+  format: string;
+  scale: number;
+  message: string;
+}
+
+// An image rendered into memory instead of written to disk
+export interface RenderedImage {
+  nodeId: string;
+  nodeName: string;
+  format: 'png' | 'jpg' | 'svg';
+  scale: number; // Scale actually rendered, lower than requested if downscaled
+  requestedScale: number;
+  bytes: number;
+  mimeType: string;
+  data: Buffer;
+}
+
+// Progress of an export run, reported after each step
+export interface ExportProgress {
+  stage: 'resolve' | 'render' | 'download' | 'write';
+  completed: number; // Steps done so far
+  total: number; // Known once the nodes are resolved
+  message: string;
+}
+
+// Everything an export run did, for callers to report from
+export interface ExportResult {
+  fileKey: string;
+  outputDir: string;
+  version?: string;
+  lastModified: string;
+  files: ExportedFile[];
+  skipped: SkippedExport[];
+  errors: ExportError[];
+}
+
+// One line of the export index in an output directory
+export interface ExportIndexRecord {
+  file: string; // Relative to the output directory
+  metadata?: string; // Relative to the output directory
+  fileKey: string;
+  nodeId: string;
+  nodeName: string;
+  version?: string;
+  lastModified: string;
+  format: string;
+  scale: number;
+  bytes: number;
+  contentHash: string; // SHA-256 of the image
+  changed: boolean; // Content differs from the previous export of this file
+  exportedAt: string;
 }
 
 // Cached Response Metadata
@@ -89,6 +410,8 @@ export interface CacheMetadata {
   nodeIds: string[];
   timestamp: number;
   ttl: number;
+  version?: string; // File version the data was fetched at
+  lastModified?: string;
 }
 
 export interface CachedNodeResponse {
@@ -96,6 +419,36 @@ export interface CachedNodeResponse {
   data: GetNodesResponse;
 }
 
+// Identity of a rendered image: same node, format, scale and file version
+export interface ImageCacheKey {
+  fileKey: string;
+  nodeId: string;
+  format: string;
+  scale: number;
+  lastModified: string;
+}
+
+// Rendered image cache entry. The binary itself is stored separately,
+// addressed by the SHA-256 of its content.
+export interface CachedImageMetadata extends ImageCacheKey {
+  contentHash: string;
+  size: number;
+  timestamp: number;
+}
+
+// Cache statistics reported by `cache stats`
+export interface CacheStats {
+  cacheDir: string;
+  nodeEntries: number;
+  imageEntries: number;
+  blobs: number;
+  totalBytes: number;
+  maxBytes: number | null;
+  expiredEntries: number;
+  oldest: string | null;
+  newest: string | null;
+}
+
 // Output Metadata
 export interface OutputMetadata {
   fileKey: string;
@@ -104,5 +457,7 @@ export interface OutputMetadata {
   exportedAt: string;
   scale: number;
   format: string;
+  fileNameTemplate?: string; // Template the files were named with
+  variants?: Array<{ format: string; scale: number; file: string }>; // file is relative to the output dir
   nodeData?: NodeData;
 }
@@ -0,0 +1,783 @@
+// Copyright 2025
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { NodeNotFoundError } from '../client/errors.js';
+import type { FigmaApiClient } from '../client/figma-api.js';
+import { hasCorners, isContainerNode, isSceneNode, isShapeNode } from '../client/nodes.js';
+import type {
+  ContainerNode,
+  ExportError,
+  ExportedFile,
+  LayoutSizing,
+  Node,
+  Paint,
+  SceneNode,
+  SkippedExport,
+  TextNode,
+} from '../client/types.js';
+import type { ImageExporter } from './image-exporter.js';
+import { cssEffects, cssPaint } from './token-extractor.js';
+
+// A React component (TSX) or a static HTML page
+export type CodeFramework = 'react' | 'html';
+
+// A stylesheet with one class per element, or Tailwind utility classes inline
+export type CodeStyling = 'css' | 'tailwind';
+
+export const CODE_FRAMEWORKS: readonly CodeFramework[] = ['react', 'html'];
+
+export const CODE_STYLINGS: readonly CodeStyling[] = ['css', 'tailwind'];
+
+// Assets are named by node ID, so the code can refer to them before they are exported
+export const ASSET_FILE_NAME_TEMPLATE = 'assets/{nodeId}.{ext}';
+
+export interface CodeOptions {
+  framework: CodeFramework;
+  styling: CodeStyling;
+  componentName?: string; // Default: from the node name; made a valid identifier either way
+}
+
+// A vector rendered as SVG, or a shape filled with an image rendered as PNG
+export interface CodeAsset {
+  nodeId: string;
+  name: string;
+  format: 'svg' | 'png';
+  path: string; // Relative to the output directory
+}
+
+export interface GeneratedFile {
+  path: string; // Relative to the output directory
+  contents: string;
+}
+
+export interface GeneratedCode {
+  nodeId: string;
+  componentName: string;
+  files: GeneratedFile[];
+  assets: CodeAsset[];
+}
+
+// An element of the generated markup, with its CSS declarations in order
+interface Element {
+  tag: 'div' | 'p' | 'img';
+  className: string;
+  css: Array<[string, string]>;
+  text?: string;
+  src?: string;
+  alt?: string;
+  children: Element[];
+}
+
+/**
+ * Fetch nodes and generate code for each of them
+ * @returns One component per node found, and the nodes that were not found in the file
+ */
+export async function fetchCode(
+  client: FigmaApiClient,
+  fileKey: string,
+  nodeIds: string[],
+  options: CodeOptions,
+  useCache = true,
+  signal?: AbortSignal,
+): Promise<{ components: GeneratedCode[]; fileName: string; missing: string[] }> {
+  const response = await client.getNodes(fileKey, nodeIds, useCache, signal);
+  const missing = nodeIds.filter((nodeId) => !response.nodes[nodeId]);
+  if (missing.length === nodeIds.length) {
+    throw new NodeNotFoundError(`Node ${nodeIds.join(', ')} not found in file ${fileKey}`, {
+      fileKey,
+      nodeId: nodeIds.length === 1 ? nodeIds[0] : undefined,
+    });
+  }
+
+  // Components share the output directory, so their names must differ
+  const used = new Set<string>();
+  const components: GeneratedCode[] = [];
+  for (const nodeId of nodeIds) {
+    const root = response.nodes[nodeId]?.document;
+    if (!root) {
+      continue;
+    }
+    const name = componentName(options.componentName ?? root.name);
+    let unique = name;
+    for (let index = 2; used.has(unique); index++) {
+      unique = `${name}${index}`;
+    }
+    used.add(unique);
+    components.push(generateCode(root, { ...options, componentName: unique }));
+  }
+
+  return { components, fileName: response.name, missing };
+}
+
+/**
+ * Generate markup and styles for a node subtree. Auto layout becomes flexbox, other
+ * frames position their children absolutely, text nodes become paragraphs with their
+ * typography, and vectors and image fills become references to exported assets.
+ * Hidden nodes are left out.
+ */
+export function generateCode(root: Node, options: CodeOptions): GeneratedCode {
+  const name = componentName(options.componentName ?? root.name);
+  const prefix = kebab(name);
+  const classNames = new Set<string>();
+  const assets: CodeAsset[] = [];
+
+  const className = (node: Node): string => {
+    const base = node === root ? prefix : `${prefix}__${kebab(node.name) || 'node'}`;
+    let unique = base;
+    for (let index = 2; classNames.has(unique); index++) {
+      unique = `${base}-${index}`;
+    }
+    classNames.add(unique);
+    return unique;
+  };
+
+  const build = (node: Node, parent: Node | null): Element | null => {
+    if (node.visible === false) {
+      return null;
+    }
+
+    const element: Element = {
+      tag: 'div',
+      className: className(node),
+      css: placement(node, parent),
+      children: [],
+    };
+
+    const format = assetFormat(node);
+    if (format) {
+      const asset: CodeAsset = {
+        nodeId: node.id,
+        name: node.name,
+        format,
+        // As ASSET_FILE_NAME_TEMPLATE names it
+        path: `assets/${node.id.replace(/:/g, '-')}.${format}`,
+      };
+      assets.push(asset);
+      return { ...element, tag: 'img', src: asset.path, alt: node.name };
+    }
+
+    if (node.type === 'TEXT') {
+      return {
+        ...element,
+        tag: 'p',
+        text: node.characters,
+        css: [...element.css, ...textCss(node)],
+      };
+    }
+
+    if (isSceneNode(node)) {
+      element.css.push(...boxCss(node));
+    }
+    for (const child of node.children ?? []) {
+      const childElement = build(child, node);
+      if (childElement) {
+        element.children.push(childElement);
+      }
+    }
+
+    // Absolutely positioned children are placed relative to this element
+    const positioned = element.children.some((child) =>
+      child.css.some(([property, value]) => property === 'position' && value === 'absolute'),
+    );
+    if (positioned && !element.css.some(([property]) => property === 'position')) {
+      element.css.unshift(['position', 'relative']);
+    }
+
+    return element;
+  };
+
+  const element = build(root, null) ?? { tag: 'div', className: prefix, css: [], children: [] };
+  return {
+    nodeId: root.id,
+    componentName: name,
+    files: renderFiles(element, name, prefix, root, options),
+    assets,
+  };
+}
+
+/**
+ * Export the assets that generated code refers to into its output directory,
+ * vectors as SVG and image fills as PNG at 2x
+ */
+export async function exportCodeAssets(
+  exporter: ImageExporter,
+  fileKey: string,
+  assets: CodeAsset[],
+  outputDir: string,
+  options: { useCache?: boolean; signal?: AbortSignal } = {},
+): Promise<{ files: ExportedFile[]; skipped: SkippedExport[]; errors: ExportError[] }> {
+  const result = {
+    files: [] as ExportedFile[],
+    skipped: [] as SkippedExport[],
+    errors: [] as ExportError[],
+  };
+
+  for (const format of ['svg', 'png'] as const) {
+    const nodeIds = [
+      ...new Set(assets.filter((asset) => asset.format === format).map((asset) => asset.nodeId)),
+    ];
+    if (nodeIds.length === 0) {
+      continue;
+    }
+
+    const exported = await exporter.exportImages(fileKey, nodeIds, outputDir, {
+      format,
+      scale: format === 'svg' ? 1 : 2,
+      fileNameTemplate: ASSET_FILE_NAME_TEMPLATE,
+      useCache: options.useCache,
+      signal: options.signal,
+    });
+    result.files.push(...exported.files);
+    result.skipped.push(...exported.skipped);
+    result.errors.push(...exported.errors);
+  }
+
+  return result;
+}
+
+/**
+ * Files for one component: markup, and a stylesheet unless styled with Tailwind
+ */
+function renderFiles(
+  element: Element,
+  name: string,
+  prefix: string,
+  root: Node,
+  options: CodeOptions,
+): GeneratedFile[] {
+  const source = `Generated from Figma node ${root.id} ("${root.name.replace(/\*\/|-->/g, '')}")`;
+  const stylesheet = options.framework === 'react' ? `${name}.css` : `${prefix}.css`;
+  const files: GeneratedFile[] = [];
+
+  if (options.framework === 'react') {
+    files.push({
+      path: `${name}.tsx`,
+      contents: [
+        `// ${source}`,
+        ...(options.styling === 'css' ? [`import './${stylesheet}';`] : []),
+        '',
+        `export function ${name}() {`,
+        '  return (',
+        ...renderMarkup(element, options, 2),
+        '  );',
+        '}',
+        '',
+      ].join('\n'),
+    });
+  } else {
+    files.push({
+      path: `${prefix}.html`,
+      contents: [
+        '<!doctype html>',
+        `<!-- ${source} -->`,
+        '<html lang="en">',
+        '  <head>',
+        '    <meta charset="utf-8" />',
+        '    <meta name="viewport" content="width=device-width, initial-scale=1" />',
+        `    <title>${escapeHtml(root.name)}</title>`,
+        options.styling === 'css'
+          ? `    <link rel="stylesheet" href="${stylesheet}" />`
+          : '    <script src="https://cdn.tailwindcss.com"></script>',
+        '  </head>',
+        '  <body>',
+        ...renderMarkup(element, options, 2),
+        '  </body>',
+        '</html>',
+        '',
+      ].join('\n'),
+    });
+  }
+
+  if (options.styling === 'css') {
+    files.push({ path: stylesheet, contents: `/* ${source} */\n\n${renderCss(element)}` });
+  }
+  return files;
+}
+
+function renderMarkup(element: Element, options: CodeOptions, depth: number): string[] {
+  const indent = '  '.repeat(depth);
+  const react = options.framework === 'react';
+  const classes = options.styling === 'tailwind' ? tailwindClasses(element.css) : element.className;
+  const attributes = [
+    classes && `${react ? 'className' : 'class'}="${classes}"`,
+    element.src && `src="${element.src}"`,
+    element.alt !== undefined && attribute('alt', element.alt, react),
+  ].filter(Boolean);
+  const open = `<${element.tag}${attributes.map((value) => ` ${value}`).join('')}`;
+
+  if (element.tag === 'img') {
+    return [`${indent}${open} />`];
+  }
+  if (element.text !== undefined) {
+    const lines = element.text
+      .split('\n')
+      .map((line) => (react ? jsxText(line) : escapeHtml(line)));
+    return [`${indent}${open}>${lines.join('<br />')}</${element.tag}>`];
+  }
+  if (element.children.length === 0) {
+    return [react ? `${indent}${open} />` : `${indent}${open}></${element.tag}>`];
+  }
+  return [
+    `${indent}${open}>`,
+    ...element.children.flatMap((child) => renderMarkup(child, options, depth + 1)),
+    `${indent}</${element.tag}>`,
+  ];
+}
+
+function renderCss(element: Element): string {
+  const rules: string[] = [];
+  const visit = (current: Element): void => {
+    if (current.css.length > 0) {
+      const declarations = current.css.map(([property, value]) => `  ${property}: ${value};`);
+      rules.push(`.${current.className} {\n${declarations.join('\n')}\n}\n`);
+    }
+    current.children.forEach(visit);
+  };
+  visit(element);
+  return rules.join('\n');
+}
+
+/**
+ * Render a node as an asset: vectors, and containers drawn only with vectors (icons),
+ * as SVG; shapes filled with an image as PNG. Plain rectangles and ellipses are drawn
+ * with CSS instead.
+ */
+function assetFormat(node: Node): 'svg' | 'png' | null {
+  if (isShapeNode(node)) {
+    if (hasImageFill(node)) {
+      return 'png';
+    }
+    return node.type === 'RECTANGLE' || node.type === 'ELLIPSE' ? null : 'svg';
+  }
+  return isContainerNode(node) && isVectorGraphic(node) ? 'svg' : null;
+}
+
+// Shapes CSS cannot draw; rectangles and ellipses are not among them
+const VECTOR_TYPES = new Set(['VECTOR', 'BOOLEAN_OPERATION', 'STAR', 'LINE', 'REGULAR_POLYGON']);
+
+function isVectorGraphic(node: Node): boolean {
+  const children = (node.children ?? []).filter((child) => child.visible !== false);
+  return (
+    children.length > 0 &&
+    children.every((child) =>
+      VECTOR_TYPES.has(child.type)
+        ? !(isShapeNode(child) && hasImageFill(child))
+        : isContainerNode(child) && isVectorGraphic(child),
+    )
+  );
+}
+
+function hasImageFill(node: SceneNode): boolean {
+  return visiblePaints(node.fills).some((paint) => paint.type === 'IMAGE');
+}
+
+function isAutoLayout(node: Node | null): node is ContainerNode {
+  return node !== null && isContainerNode(node) && (node.layoutMode ?? 'NONE') !== 'NONE';
+}
+
+/**
+ * How a node sizes along one axis, filling in what Figma leaves out
+ */
+function sizing(node: Node, axis: 'horizontal' | 'vertical'): LayoutSizing {
+  if (!isSceneNode(node)) {
+    return 'FIXED';
+  }
+
+  const explicit = axis === 'horizontal' ? node.layoutSizingHorizontal : node.layoutSizingVertical;
+  if (explicit) {
+    return explicit;
+  }
+  if (isAutoLayout(node)) {
+    const primary = (node.layoutMode === 'HORIZONTAL') === (axis === 'horizontal');
+    const mode = primary ? node.primaryAxisSizingMode : node.counterAxisSizingMode;
+    return mode === 'AUTO' ? 'HUG' : 'FIXED';
+  }
+  if (node.type === 'TEXT') {
+    const resize = node.style.textAutoResize;
+    if (resize === 'WIDTH_AND_HEIGHT' || (resize === 'HEIGHT' && axis === 'vertical')) {
+      return 'HUG';
+    }
+  }
+  return 'FIXED';
+}
+
+/**
+ * Position and size of a node: in its parent's flex flow when the parent uses auto
+ * layout, absolutely positioned otherwise
+ */
+function placement(node: Node, parent: Node | null): Array<[string, string]> {
+  const css: Array<[string, string]> = [];
+  const box = node.absoluteBoundingBox;
+  const parentBox = parent?.absoluteBoundingBox;
+  const absolute = isSceneNode(node) && node.layoutPositioning === 'ABSOLUTE';
+  const flow = isAutoLayout(parent) && !absolute ? parent : null;
+
+  if (parent && !flow && box && parentBox) {
+    css.push(
+      ['position', 'absolute'],
+      ['left', px(box.x - parentBox.x)],
+      ['top', px(box.y - parentBox.y)],
+    );
+  }
+
+  for (const axis of ['horizontal', 'vertical'] as const) {
+    const property = axis === 'horizontal' ? 'width' : 'height';
+    const mainAxis =
+      flow !== null && (flow.layoutMode === 'HORIZONTAL') === (axis === 'horizontal');
+    switch (sizing(node, axis)) {
+      case 'FIXED':
+        if (box) {
+          css.push([property, px(box[property])]);
+        }
+        if (mainAxis) {
+          css.push(['flex-shrink', '0']);
+        }
+        break;
+      case 'FILL':
+        if (!flow) {
+          css.push([property, '100%']);
+        } else if (mainAxis) {
+          css.push(['flex', '1 1 0']);
+        } else {
+          css.push(['align-self', 'stretch']);
+        }
+        break;
+      case 'HUG':
+        break;
+    }
+  }
+
+  return css;
+}
+
+const JUSTIFY_CONTENT = {
+  MIN: 'flex-start',
+  CENTER: 'center',
+  MAX: 'flex-end',
+  SPACE_BETWEEN: 'space-between',
+} as const;
+
+const ALIGN_ITEMS = {
+  MIN: 'flex-start',
+  CENTER: 'center',
+  MAX: 'flex-end',
+  BASELINE: 'baseline',
+} as const;
+
+/**
+ * Auto layout and appearance of a frame or shape
+ */
+function boxCss(node: SceneNode): Array<[string, string]> {
+  const css: Array<[string, string]> = [];
+
+  if (isAutoLayout(node)) {
+    css.push(['display', 'flex']);
+    if (node.layoutMode === 'VERTICAL') {
+      css.push(['flex-direction', 'column']);
+    }
+    const spaceBetween = node.primaryAxisAlignItems === 'SPACE_BETWEEN';
+    if (node.layoutWrap === 'WRAP') {
+      css.push(['flex-wrap', 'wrap']);
+      if (node.counterAxisSpacing) {
+        css.push([
+          node.layoutMode === 'VERTICAL' ? 'column-gap' : 'row-gap',
+          px(node.counterAxisSpacing),
+        ]);
+      }
+    }
+    if (node.itemSpacing && !spaceBetween) {
+      css.push([
+        node.layoutWrap === 'WRAP'
+          ? node.layoutMode === 'VERTICAL'
+            ? 'row-gap'
+            : 'column-gap'
+          : 'gap',
+        px(node.itemSpacing),
+      ]);
+    }
+    const padding = [node.paddingTop, node.paddingRight, node.paddingBottom, node.paddingLeft];
+    if (padding.some((value) => value)) {
+      css.push(['padding', boxShorthand(padding.map((value) => value ?? 0))]);
+    }
+    if (node.primaryAxisAlignItems && node.primaryAxisAlignItems !== 'MIN') {
+      css.push(['justify-content', JUSTIFY_CONTENT[node.primaryAxisAlignItems]]);
+    }
+    // Figma aligns to the start by default; CSS would stretch
+    css.push(['align-items', ALIGN_ITEMS[node.counterAxisAlignItems ?? 'MIN']]);
+  }
+
+  const fill = visiblePaints(node.fills)
+    .map((paint) => cssPaint(paint))
+    .filter((value) => value !== null)
+    .at(-1);
+  if (fill) {
+    css.push(['background', fill]);
+  }
+
+  const stroke = visiblePaints(node.strokes).at(-1);
+  const strokeColor = stroke && stroke.type === 'SOLID' ? cssPaint(stroke) : null;
+  if (strokeColor && node.strokeWeight !== 0) {
+    css.push(['border', `${px(node.strokeWeight ?? 1)} solid ${strokeColor}`]);
+  }
+
+  if (node.type === 'ELLIPSE') {
+    css.push(['border-radius', '50%']);
+  } else if (hasCorners(node)) {
+    const radii = node.rectangleCornerRadii;
+    if (radii && new Set(radii).size > 1) {
+      css.push(['border-radius', radii.map(px).join(' ')]);
+    } else if (node.cornerRadius) {
+      css.push(['border-radius', px(node.cornerRadius)]);
+    }
+  }
+
+  if (node.opacity !== undefined && node.opacity < 1) {
+    css.push(['opacity', String(round(node.opacity))]);
+  }
+
+  const effects = cssEffects(node.effects);
+  if (effects.boxShadow) {
+    css.push(['box-shadow', effects.boxShadow]);
+  }
+  if (effects.filter) {
+    css.push(['filter', effects.filter]);
+  }
+  if (effects.backdropFilter) {
+    css.push(['backdrop-filter', effects.backdropFilter]);
+  }
+
+  if (isContainerNode(node) && node.clipsContent) {
+    css.push(['overflow', 'hidden']);
+  }
+
+  return css;
+}
+
+const TEXT_ALIGN = { RIGHT: 'right', CENTER: 'center', JUSTIFIED: 'justify' } as const;
+
+const TEXT_TRANSFORM: Record<string, string> = {
+  UPPER: 'uppercase',
+  LOWER: 'lowercase',
+  TITLE: 'capitalize',
+};
+
+const TEXT_DECORATION: Record<string, string> = {
+  UNDERLINE: 'underline',
+  STRIKETHROUGH: 'line-through',
+};
+
+/**
+ * Typography of a text node, from its own style; mixed-style ranges are not split out
+ */
+function textCss(node: TextNode): Array<[string, string]> {
+  const { style } = node;
+  const css: Array<[string, string]> = [['margin', '0']];
+
+  const color = visiblePaints(node.fills)
+    .map((paint) => cssPaint(paint))
+    .filter((value) => value !== null)
+    .at(-1);
+  if (color) {
+    css.push(['color', color]);
+  }
+  if (style.fontFamily) {
+    css.push(['font-family', `'${style.fontFamily.replace(/'/g, "\\'")}'`]);
+  }
+  if (style.fontSize) {
+    css.push(['font-size', px(style.fontSize)]);
+  }
+  if (style.fontWeight) {
+    css.push(['font-weight', String(style.fontWeight)]);
+  }
+  // Intrinsic line height means "auto"; leave it to the font
+  if (style.lineHeightUnit !== 'INTRINSIC_%' && style.lineHeightPx) {
+    css.push(['line-height', px(style.lineHeightPx)]);
+  }
+  if (style.letterSpacing) {
+    css.push(['letter-spacing', px(style.letterSpacing)]);
+  }
+  if (style.italic) {
+    css.push(['font-style', 'italic']);
+  }
+  if (style.textAlignHorizontal && style.textAlignHorizontal !== 'LEFT') {
+    css.push(['text-align', TEXT_ALIGN[style.textAlignHorizontal]]);
+  }
+  const transform = style.textCase && TEXT_TRANSFORM[style.textCase];
+  if (transform) {
+    css.push(['text-transform', transform]);
+  }
+  const decoration = style.textDecoration && TEXT_DECORATION[style.textDecoration];
+  if (decoration) {
+    css.push(['text-decoration', decoration]);
+  }
+
+  return css;
+}
+
+const TAILWIND_KEYWORDS: Record<string, Record<string, string>> = {
+  display: { flex: 'flex' },
+  'flex-direction': { column: 'flex-col' },
+  'flex-wrap': { wrap: 'flex-wrap' },
+  flex: { '1 1 0': 'flex-1' },
+  'flex-shrink': { '0': 'shrink-0' },
+  'align-self': { stretch: 'self-stretch' },
+  'justify-content': {
+    center: 'justify-center',
+    'flex-end': 'justify-end',
+    'space-between': 'justify-between',
+  },
+  'align-items': {
+    'flex-start': 'items-start',
+    center: 'items-center',
+    'flex-end': 'items-end',
+    baseline: 'items-baseline',
+  },
+  position: { absolute: 'absolute', relative: 'relative' },
+  overflow: { hidden: 'overflow-hidden' },
+  margin: { '0': 'm-0' },
+  'font-style': { italic: 'italic' },
+  'text-align': { right: 'text-right', center: 'text-center', justify: 'text-justify' },
+  'text-transform': { uppercase: 'uppercase', lowercase: 'lowercase', capitalize: 'capitalize' },
+  'text-decoration': { underline: 'underline', 'line-through': 'line-through' },
+  width: { '100%': 'w-full' },
+  height: { '100%': 'h-full' },
+};
+
+// Utilities that take an arbitrary value, e.g. gap: 16px -> gap-[16px]
+const TAILWIND_PREFIXES: Record<string, string> = {
+  gap: 'gap',
+  'row-gap': 'gap-y',
+  'column-gap': 'gap-x',
+  left: 'left',
+  top: 'top',
+  width: 'w',
+  height: 'h',
+  background: 'bg',
+  'border-radius': 'rounded',
+  opacity: 'opacity',
+  'box-shadow': 'shadow',
+  color: 'text',
+  'font-family': 'font',
+  'font-size': 'text',
+  'font-weight': 'font',
+  'line-height': 'leading',
+  'letter-spacing': 'tracking',
+};
+
+/**
+ * Turn CSS declarations into Tailwind utilities, with arbitrary values for exact sizes
+ * and colors, and arbitrary properties for anything without a utility
+ */
+function tailwindClasses(css: Array<[string, string]>): string {
+  return css
+    .flatMap(([property, value]): string[] => {
+      const keyword = TAILWIND_KEYWORDS[property]?.[value];
+      if (keyword) {
+        return [keyword];
+      }
+      const prefix = TAILWIND_PREFIXES[property];
+      if (prefix) {
+        return [`${prefix}-[${arbitrary(value)}]`];
+      }
+
+      switch (property) {
+        case 'padding': {
+          const [top, right = top, bottom = top, left = right] = value.split(' ');
+          return top === bottom && left === right
+            ? top === left
+              ? [`p-[${top}]`]
+              : [`py-[${top}]`, `px-[${left}]`]
+            : [`pt-[${top}]`, `pr-[${right}]`, `pb-[${bottom}]`, `pl-[${left}]`];
+        }
+        case 'border': {
+          const [width, , color] = value.split(' ');
+          return [`border-[${width}]`, `border-[${color}]`];
+        }
+        case 'filter':
+        case 'backdrop-filter': {
+          const radius = /^blur\((.+)\)$/.exec(value)?.[1];
+          if (radius) {
+            return [`${property === 'filter' ? 'blur' : 'backdrop-blur'}-[${radius}]`];
+          }
+          break;
+        }
+      }
+      return [`[${property}:${arbitrary(value)}]`];
+    })
+    .join(' ');
+}
+
+// Tailwind reads underscores in arbitrary values as spaces
+function arbitrary(value: string): string {
+  return value.replace(/\s+/g, '_');
+}
+
+function boxShorthand([top, right, bottom, left]: number[]): string {
+  if (top === bottom && left === right) {
+    return top === left ? px(top ?? 0) : `${px(top ?? 0)} ${px(left ?? 0)}`;
+  }
+  return [top, right, bottom, left].map((value) => px(value ?? 0)).join(' ');
+}
+
+function visiblePaints(paints: Paint[] | undefined): Paint[] {
+  return (paints ?? []).filter((paint) => paint.visible !== false);
+}
+
+function attribute(name: string, value: string, react: boolean): string {
+  if (!react) {
+    return `${name}="${escapeHtml(value)}"`;
+  }
+  // JSX attribute strings have no escapes
+  return /["\\]/.test(value) ? `${name}={${JSON.stringify(value)}}` : `${name}="${value}"`;
+}
+
+function jsxText(text: string): string {
+  return /[{}<>&]|^\s|\s$/.test(text) ? `{${JSON.stringify(text)}}` : text;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Turn a node name like "Login screen / v2" into a component name like "LoginScreenV2"
+ */
+function componentName(name: string): string {
+  const pascal = name
+    .split(/[^a-zA-Z0-9]+/)
+    .filter(Boolean)
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join('');
+  return /^[A-Z]/.test(pascal) ? pascal : `Figma${pascal}`;
+}
+
+function kebab(value: string): string {
+  return value
+    .replace(/([a-z0-9])([A-Z])/g, '$1-$2')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+function px(value: number): string {
+  return `${round(value)}px`;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
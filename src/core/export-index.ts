@@ -0,0 +1,141 @@
+// Copyright 2025
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { appendFileSync, existsSync, readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import type { ExportIndexRecord } from '../client/types.js';
+
+export const EXPORT_INDEX_FILE = '.figma-exports.jsonl';
+
+export interface ExportIndexQuery {
+  fileKey?: string;
+  nodeName?: string; // Case-insensitive substring
+  format?: string;
+  since?: string; // ISO date, inclusive
+  until?: string; // ISO date, inclusive
+  history?: boolean; // Every recorded export instead of the latest per file
+}
+
+/**
+ * Append-only ledger of exports, one JSON record per line, kept in the output directory
+ */
+export class ExportIndex {
+  private indexPath: string;
+
+  constructor(outputDir: string) {
+    this.indexPath = join(outputDir, EXPORT_INDEX_FILE);
+  }
+
+  exists(): boolean {
+    return existsSync(this.indexPath);
+  }
+
+  /**
+   * Record exported files. Each record's `changed` flag is set by comparing its
+   * content hash with the previous export of the same file.
+   */
+  append(records: Array<Omit<ExportIndexRecord, 'changed'>>): void {
+    if (records.length === 0) {
+      return;
+    }
+
+    const previous = this.latestByFile(this.read());
+    const lines = records.map((record) => {
+      const last = previous.get(record.file);
+      const entry: ExportIndexRecord = {
+        ...record,
+        changed: !last || last.contentHash !== record.contentHash,
+      };
+      return JSON.stringify(entry);
+    });
+
+    appendFileSync(this.indexPath, `${lines.join('\n')}\n`, 'utf-8');
+  }
+
+  /**
+   * Query recorded exports, newest first
+   */
+  query(query: ExportIndexQuery = {}): ExportIndexRecord[] {
+    const records = this.read();
+    const candidates = query.history ? records : [...this.latestByFile(records).values()];
+    const nodeName = query.nodeName?.toLowerCase();
+    const since = query.since ? Date.parse(query.since) : null;
+    const until = query.until ? this.endOfRange(query.until) : null;
+
+    return candidates
+      .filter((record) => {
+        const exportedAt = Date.parse(record.exportedAt);
+        return (
+          (!query.fileKey || record.fileKey === query.fileKey) &&
+          (!nodeName || record.nodeName.toLowerCase().includes(nodeName)) &&
+          (!query.format || record.format === query.format) &&
+          (since === null || exportedAt >= since) &&
+          (until === null || exportedAt <= until)
+        );
+      })
+      .sort((a, b) => Date.parse(b.exportedAt) - Date.parse(a.exportedAt));
+  }
+
+  /**
+   * A date without a time covers the whole day
+   */
+  private endOfRange(until: string): number {
+    const time = Date.parse(until);
+    return /^\d{4}-\d{2}-\d{2}$/.test(until) ? time + 86400000 - 1 : time;
+  }
+
+  private read(): ExportIndexRecord[] {
+    if (!this.exists()) {
+      return [];
+    }
+
+    const records: ExportIndexRecord[] = [];
+    for (const line of readFileSync(this.indexPath, 'utf-8').split('\n')) {
+      if (!line.trim()) {
+        continue;
+      }
+      try {
+        records.push(JSON.parse(line));
+      } catch {
+        // Ignore a partially written line
+      }
+    }
+    return records;
+  }
+
+  private latestByFile(records: ExportIndexRecord[]): Map<string, ExportIndexRecord> {
+    const latest = new Map<string, ExportIndexRecord>();
+    for (const record of records) {
+      latest.set(record.file, record);
+    }
+    return latest;
+  }
+}
+
+/**
+ * List exports recorded in an output directory, with paths joined to the directory
+ * and whether each image still exists
+ */
+export function listExports(outputDir: string, query: ExportIndexQuery = {}) {
+  // Index paths are relative to the output directory
+  return new ExportIndex(outputDir).query(query).map(({ file, metadata, ...record }) => {
+    const image = join(outputDir, file);
+    return {
+      image,
+      metadata: metadata ? join(outputDir, metadata) : undefined,
+      ...record,
+      exists: existsSync(image),
+    };
+  });
+}
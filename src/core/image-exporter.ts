@@ -12,48 +12,159 @@
 // See the License for the specific language governing permissions and
 // limitations under the License.
 
+import { createHash } from 'node:crypto';
 import { existsSync, mkdirSync, writeFileSync } from 'node:fs';
-import { join } from 'node:path';
+import { dirname, isAbsolute, join, relative } from 'node:path';
+import { InvalidArgumentError, NodeNotFoundError } from '../client/errors.js';
 import type { FigmaApiClient } from '../client/figma-api.js';
-import type { ExportOptions, Node, OutputMetadata } from '../client/types.js';
+import type {
+  ExportOptions,
+  ExportProgress,
+  ExportResult,
+  ExportVariant,
+  ExportedFile,
+  GetNodesResponse,
+  ImageCacheKey,
+  Node,
+  OutputMetadata,
+  RenderedImage,
+  SkippedExport,
+} from '../client/types.js';
+import { mapWithConcurrency } from '../utils/batch.js';
+import { type Logger, defaultLogger } from '../utils/logger.js';
+import { isInsideDirectory } from '../utils/paths.js';
+import { ExportIndex } from './export-index.js';
+import { type NodeSelection, findAncestorNames, selectNodes } from './node-selector.js';
+
+export const DEFAULT_FILE_NAME_TEMPLATE = '{fileKey}_{nodeId}_{slug}.{ext}';
+export const DEFAULT_RENDER_MAX_BYTES = 1024 * 1024;
+// Skip reason for requested nodes missing from the file
+export const NODE_NOT_FOUND_REASON = 'Node not found in file';
+
+// Renders too large for their byte budget are retried at a smaller scale
+const MAX_DOWNSCALE_ATTEMPTS = 3;
+const MIN_RENDER_SCALE = 0.1;
+
+const MIME_TYPES: Record<RenderedImage['format'], string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  svg: 'image/svg+xml',
+};
+
+/**
+ * Check that a file name template stays relative to the output directory
+ * @throws InvalidArgumentError for absolute templates and `..` segments
+ */
+export function validateFileNameTemplate(template: string): void {
+  if (isAbsolute(template) || /^([a-zA-Z]:)?[\\/]/.test(template)) {
+    throw new InvalidArgumentError(
+      `File name template must be relative to the output directory: ${template}`,
+    );
+  }
+  if (template.split(/[\\/]/).some((segment) => segment === '..')) {
+    throw new InvalidArgumentError(`File name template must not contain "..": ${template}`);
+  }
+}
+
+/**
+ * Build format/scale variants from lists of formats and scales.
+ * Vector formats ignore the scale, so they are rendered once.
+ * @returns Every raster format at every scale, plus each vector format once
+ */
+export function buildVariants(
+  formats: ExportOptions['format'][],
+  scales: number[],
+): ExportVariant[] {
+  const variants: ExportVariant[] = [];
+  for (const format of new Set(formats)) {
+    if (format === 'svg' || format === 'pdf') {
+      variants.push({ format, scale: 1 });
+      continue;
+    }
+    for (const scale of new Set(scales)) {
+      variants.push({ format, scale });
+    }
+  }
+  return variants;
+}
+
+/**
+ * One-line summary of an export result
+ */
+export function summarizeExport(result: ExportResult): string {
+  const parts = [`Exported ${result.files.length} image(s)`];
+  if (result.skipped.length > 0) {
+    parts.push(`skipped ${result.skipped.length}`);
+  }
+  if (result.errors.length > 0) {
+    parts.push(`${result.errors.length} failed`);
+  }
+  return parts.join(', ');
+}
 
 export class ImageExporter {
   private client: FigmaApiClient;
+  private logger: Logger;
 
-  constructor(client: FigmaApiClient) {
+  constructor(client: FigmaApiClient, logger: Logger = defaultLogger) {
     this.client = client;
+    this.logger = logger;
   }
 
   /**
-   * Export images from Figma
+   * Export images from Figma.
+   * When `signal` is aborted, remaining downloads are skipped, files already written are
+   * recorded as usual and the abort reason is thrown.
+   * @returns Files written (one per node and variant), skipped nodes and per-node errors
+   * @throws NodeNotFoundError when none of the nodes are in the file
    */
   async exportImages(
     fileKey: string,
     nodeIds: string[],
     outputDir: string,
-    options: Partial<ExportOptions> & { verbose?: boolean },
-  ): Promise<void> {
+    options: Partial<ExportOptions> & {
+      verbose?: boolean;
+      signal?: AbortSignal;
+      onProgress?: (progress: ExportProgress) => void;
+    },
+  ): Promise<ExportResult> {
     const {
       scale = 2,
       format = 'png',
       withMetadata = false,
       useCache = true,
+      concurrency = 4,
+      fileNameTemplate = DEFAULT_FILE_NAME_TEMPLATE,
       verbose = false,
+      signal,
+      onProgress,
     } = options;
 
+    validateFileNameTemplate(fileNameTemplate);
+
+    const progress = { completed: 0, total: 0 };
+    const report = (stage: ExportProgress['stage'], message: string, steps = 1): void => {
+      progress.completed = Math.min(progress.completed + steps, progress.total);
+      onProgress?.({ stage, message, ...progress });
+    };
+
     // Ensure output directory exists
     if (!existsSync(outputDir)) {
       mkdirSync(outputDir, { recursive: true });
     }
 
-    console.log(`Exporting ${nodeIds.length} node(s) from Figma...`);
+    this.logger.info(`Exporting ${nodeIds.length} node(s) from Figma...`);
 
     // Get node information (with caching)
-    const nodesResponse = await this.client.getNodes(fileKey, nodeIds, useCache);
+    const nodesResponse = await this.client.getNodes(fileKey, nodeIds, useCache, signal);
+    signal?.throwIfAborted();
 
     // Print node hierarchy in verbose mode
     if (verbose) {
-      console.log('\nNode Hierarchy:');
+      this.logger.info(
+        `File Version: ${nodesResponse.version ?? 'unknown'} (last modified ${nodesResponse.lastModified})`,
+      );
+      this.logger.info('\nNode Hierarchy:');
       for (const nodeId of nodeIds) {
         const nodeData = nodesResponse.nodes[nodeId];
         if (nodeData) {
@@ -63,86 +174,577 @@ export class ImageExporter {
             ? { x: rootNode.absoluteBoundingBox.x, y: rootNode.absoluteBoundingBox.y }
             : { x: 0, y: 0 };
 
-          console.log(`Root Node: ${rootNode.name || '[unnamed]'} (id: ${rootNode.id})`);
+          this.logger.info(`Root Node: ${rootNode.name || '[unnamed]'} (id: ${rootNode.id})`);
           this.printNodeTree(rootNode, 0, origin);
         }
       }
-      console.log('');
+      this.logger.info('');
     }
 
-    // Get image URLs
-    const imageUrls = await this.client.getImageUrls(fileKey, nodeIds, {
-      scale,
-      format,
-      useCache,
-      withMetadata,
+    // One render pass per format/scale variant, all sharing the node data above
+    const variants = options.variants ?? [{ format, scale }];
+
+    // Plan file names up front so collisions are detected before anything is written
+    const ancestors = /\{(page|path)\}/.test(fileNameTemplate)
+      ? await this.getAncestorNames(fileKey, nodeIds, signal)
+      : {};
+    const fileNames = this.planFileNames(
+      fileNameTemplate,
+      outputDir,
+      fileKey,
+      nodeIds,
+      variants,
+      nodesResponse,
+      ancestors,
+    );
+
+    const result: ExportResult = {
+      fileKey,
+      outputDir,
+      version: nodesResponse.version,
+      lastModified: nodesResponse.lastModified,
+      files: [],
+      skipped: [],
+      errors: [],
+    };
+    const metadataFiles = new Map<string, { path: string; metadata: OutputMetadata }>();
+
+    // Nodes missing from the file cannot be rendered in any variant
+    const foundNodeIds = nodeIds.filter((nodeId) => {
+      if (nodesResponse.nodes[nodeId]) {
+        return true;
+      }
+      this.logger.warn(`No node data for ${nodeId}`);
+      result.skipped.push({ nodeId, reason: NODE_NOT_FOUND_REASON });
+      return false;
     });
+    if (foundNodeIds.length === 0 && nodeIds.length > 0) {
+      throw new NodeNotFoundError(`Node ${nodeIds.join(', ')} not found in file ${fileKey}`, {
+        fileKey,
+        nodeId: nodeIds.length === 1 ? nodeIds[0] : undefined,
+      });
+    }
 
-    // Download and save each image
-    for (const nodeId of nodeIds) {
-      const imageUrl = imageUrls[nodeId];
-      if (!imageUrl) {
-        console.warn(`No image URL for node ${nodeId}`);
-        continue;
+    // One step for resolving, then per variant one for rendering and two per file
+    progress.total = 1 + variants.length * (1 + 2 * foundNodeIds.length);
+    report('resolve', `Resolved ${foundNodeIds.length} of ${nodeIds.length} node(s)`);
+
+    for (const variant of variants) {
+      if (signal?.aborted) {
+        break;
+      }
+
+      // Resolve images from the cache first; only cache misses are rendered
+      const images: Record<string, Buffer> = {};
+      const pendingNodeIds: string[] = [];
+      for (const nodeId of foundNodeIds) {
+        const cached = useCache
+          ? this.client.getCachedImage(
+              this.imageCacheKey(fileKey, nodeId, variant, nodesResponse.lastModified),
+            )
+          : null;
+        if (cached) {
+          images[nodeId] = cached;
+        } else {
+          pendingNodeIds.push(nodeId);
+        }
+      }
+
+      if (verbose && pendingNodeIds.length < foundNodeIds.length) {
+        this.logger.info(
+          `Using ${foundNodeIds.length - pendingNodeIds.length} cached ${variant.format}@${variant.scale}x image(s)`,
+        );
+      }
+
+      // Get image URLs for the nodes that still need rendering. A failed render fails
+      // its nodes for this variant only; cached images and other variants still export.
+      let imageUrls: Record<string, string> = {};
+      let renderError: string | undefined;
+      if (pendingNodeIds.length > 0) {
+        try {
+          imageUrls = await this.client.getImageUrls(
+            fileKey,
+            pendingNodeIds,
+            { scale: variant.scale, format: variant.format, useCache, withMetadata },
+            signal,
+          );
+        } catch (error) {
+          // Record what was written before the abort, as for aborted downloads
+          if (signal?.aborted) {
+            break;
+          }
+          renderError = error instanceof Error ? error.message : String(error);
+          this.logger.error(
+            `Failed to render ${pendingNodeIds.length} ${variant.format}@${variant.scale}x image(s): ${renderError}`,
+          );
+        }
+      }
+      report(
+        'render',
+        `Rendered ${pendingNodeIds.length} ${variant.format}@${variant.scale}x image(s), ${foundNodeIds.length - pendingNodeIds.length} cached`,
+      );
+
+      // Download and save each image, a limited number at a time.
+      // A failing node is recorded in the result and does not stop the others.
+      await mapWithConcurrency(foundNodeIds, concurrency, async (nodeId) => {
+        const nodeData = nodesResponse.nodes[nodeId];
+        const fileName = fileNames.get(this.variantKey(nodeId, variant));
+        if (!nodeData || !fileName || signal?.aborted) {
+          return;
+        }
+
+        const nodeName = nodeData.document.name;
+        const cached = Boolean(images[nodeId]);
+        let remainingSteps = 2;
+
+        try {
+          let imageBuffer = images[nodeId];
+          if (!imageBuffer) {
+            if (renderError) {
+              result.errors.push({
+                nodeId,
+                format: variant.format,
+                scale: variant.scale,
+                message: renderError,
+              });
+              report('write', `Failed: ${fileName}`, remainingSteps);
+              return;
+            }
+
+            const imageUrl = imageUrls[nodeId];
+            if (!imageUrl) {
+              this.logger.warn(`No image URL for node ${nodeId}`);
+              result.skipped.push({
+                nodeId,
+                format: variant.format,
+                scale: variant.scale,
+                reason: 'Figma returned no image (the node may be empty or invisible)',
+              });
+              report('write', `Skipped: ${fileName}`, remainingSteps);
+              return;
+            }
+
+            this.logger.debug(`Downloading: ${fileName}`);
+
+            // Download image
+            imageBuffer = await this.client.downloadImage(imageUrl, signal);
+
+            if (useCache) {
+              this.client.cacheImage(
+                this.imageCacheKey(fileKey, nodeId, variant, nodesResponse.lastModified),
+                imageBuffer,
+              );
+            }
+          }
+
+          report('download', `${cached ? 'Cached' : 'Downloaded'}: ${fileName}`);
+          remainingSteps--;
+
+          // Save image, creating subdirectories from the template as needed
+          const imagePath = join(outputDir, fileName);
+          mkdirSync(dirname(imagePath), { recursive: true });
+          writeFileSync(imagePath, imageBuffer);
+          this.logger.info(`Saved: ${imagePath}`);
+          report('write', `Saved: ${fileName}`);
+          const exportedFile: ExportedFile = {
+            nodeId,
+            nodeName,
+            image: imagePath,
+            format: variant.format,
+            scale: variant.scale,
+            bytes: imageBuffer.length,
+            contentHash: createHash('sha256').update(imageBuffer).digest('hex'),
+            cached,
+          };
+          result.files.push(exportedFile);
+
+          // Collect metadata; all variants of a node share one metadata file, named
+          // after the first variant's file without its @{scale}x suffix
+          if (withMetadata) {
+            const entry = metadataFiles.get(nodeId) ?? {
+              path: join(
+                outputDir,
+                `${this.stripExtension(fileName).replace(/@[\d.]+x$/, '')}.json`,
+              ),
+              metadata: {
+                fileKey,
+                nodeId,
+                nodeName,
+                exportedAt: new Date().toISOString(),
+                scale: variant.scale,
+                format: variant.format,
+                fileNameTemplate,
+                variants: [],
+                nodeData,
+              },
+            };
+            exportedFile.metadata = entry.path;
+            entry.metadata.variants?.push({
+              format: variant.format,
+              scale: variant.scale,
+              file: fileName,
+            });
+            metadataFiles.set(nodeId, entry);
+          }
+        } catch (error) {
+          if (signal?.aborted) {
+            return; // Cancelled, not failed
+          }
+          const message = error instanceof Error ? error.message : String(error);
+          this.logger.error(`Failed to export ${nodeId} (${fileName}): ${message}`);
+          result.errors.push({ nodeId, format: variant.format, scale: variant.scale, message });
+          report('write', `Failed: ${fileName}`, remainingSteps);
+        }
+      });
+    }
+
+    // Save metadata if requested
+    for (const { path: metadataPath, metadata } of metadataFiles.values()) {
+      writeFileSync(metadataPath, JSON.stringify(metadata, null, 2), 'utf-8');
+      this.logger.info(`Saved metadata: ${metadataPath}`);
+    }
+
+    // Concurrent downloads finish out of order; report in request order
+    const nodeOrder = new Map(nodeIds.map((nodeId, index) => [nodeId, index]));
+    const variantOrder = new Map(
+      variants.map((variant, index) => [this.variantKey('', variant), index]),
+    );
+    result.files.sort(
+      (a, b) =>
+        (nodeOrder.get(a.nodeId) ?? 0) - (nodeOrder.get(b.nodeId) ?? 0) ||
+        (variantOrder.get(this.variantKey('', a)) ?? 0) -
+          (variantOrder.get(this.variantKey('', b)) ?? 0),
+    );
+
+    // Record the run in the output directory's export index
+    const exportedAt = new Date().toISOString();
+    new ExportIndex(outputDir).append(
+      result.files.map((file) => ({
+        file: relative(outputDir, file.image),
+        metadata: file.metadata ? relative(outputDir, file.metadata) : undefined,
+        fileKey,
+        nodeId: file.nodeId,
+        nodeName: file.nodeName,
+        version: result.version,
+        lastModified: result.lastModified,
+        format: file.format,
+        scale: file.scale,
+        bytes: file.bytes,
+        contentHash: file.contentHash,
+        exportedAt,
+      })),
+    );
+
+    if (signal?.aborted) {
+      this.logger.warn(`Export cancelled after ${result.files.length} image(s)`);
+      signal.throwIfAborted();
+    }
+
+    this.logger.info(`\n${summarizeExport(result)} to ${outputDir}`);
+    return result;
+  }
+
+  /**
+   * Render nodes into memory without writing files.
+   * Each image gets an equal share of `maxBytes` (measured as base64 for raster images);
+   * a raster image over its share is rendered again at a smaller scale until it fits.
+   * @returns Rendered images in request order, and nodes that could not be rendered
+   */
+  async renderImages(
+    fileKey: string,
+    nodeIds: string[],
+    options: {
+      format?: RenderedImage['format'];
+      scale?: number;
+      maxBytes?: number;
+      useCache?: boolean;
+      signal?: AbortSignal;
+    } = {},
+  ): Promise<{ images: RenderedImage[]; skipped: SkippedExport[] }> {
+    const {
+      format = 'png',
+      scale = 1,
+      maxBytes = DEFAULT_RENDER_MAX_BYTES,
+      useCache = true,
+      signal,
+    } = options;
+
+    const nodesResponse = await this.client.getNodes(fileKey, nodeIds, useCache, signal);
+    const images = new Map<string, RenderedImage>();
+    const skipped: SkippedExport[] = [];
+
+    const foundNodeIds = nodeIds.filter((nodeId) => {
+      if (nodesResponse.nodes[nodeId]) {
+        return true;
       }
+      skipped.push({ nodeId, reason: NODE_NOT_FOUND_REASON });
+      return false;
+    });
+    const budget = Math.floor(maxBytes / Math.max(1, foundNodeIds.length));
+
+    // Vector formats have no scale to reduce
+    let pending = new Map(
+      foundNodeIds.map((nodeId) => [nodeId, format === 'svg' ? 1 : scale] as const),
+    );
+    for (let attempt = 0; pending.size > 0; attempt++) {
+      signal?.throwIfAborted();
+      const retry = new Map<string, number>();
+
+      for (const [variantScale, ids] of this.groupByScale(pending)) {
+        const variant: ExportVariant = { format, scale: variantScale };
+        const buffers: Record<string, Buffer> = {};
+        const misses: string[] = [];
+        for (const nodeId of ids) {
+          const cached = useCache
+            ? this.client.getCachedImage(
+                this.imageCacheKey(fileKey, nodeId, variant, nodesResponse.lastModified),
+              )
+            : null;
+          if (cached) {
+            buffers[nodeId] = cached;
+          } else {
+            misses.push(nodeId);
+          }
+        }
+
+        const imageUrls =
+          misses.length > 0
+            ? await this.client.getImageUrls(fileKey, misses, { ...variant, useCache }, signal)
+            : {};
+        for (const nodeId of misses) {
+          const imageUrl = imageUrls[nodeId];
+          if (!imageUrl) {
+            continue;
+          }
+          buffers[nodeId] = await this.client.downloadImage(imageUrl, signal);
+          if (useCache) {
+            this.client.cacheImage(
+              this.imageCacheKey(fileKey, nodeId, variant, nodesResponse.lastModified),
+              buffers[nodeId],
+            );
+          }
+        }
+
+        for (const nodeId of ids) {
+          const buffer = buffers[nodeId];
+          if (!buffer) {
+            skipped.push({
+              nodeId,
+              format,
+              scale: variantScale,
+              reason: 'Figma returned no image (the node may be empty or invisible)',
+            });
+            continue;
+          }
+
+          const size = format === 'svg' ? buffer.length : Math.ceil(buffer.length / 3) * 4;
+          if (size <= budget) {
+            images.set(nodeId, {
+              nodeId,
+              nodeName: nodesResponse.nodes[nodeId]?.document.name ?? nodeId,
+              format,
+              scale: variantScale,
+              requestedScale: scale,
+              bytes: buffer.length,
+              mimeType: MIME_TYPES[format],
+              data: buffer,
+            });
+            continue;
+          }
 
-      const nodeData = nodesResponse.nodes[nodeId];
+          // Pixel count, and roughly the byte size, grows with the square of the scale
+          const nextScale = Math.floor(variantScale * Math.sqrt(budget / size) * 0.9 * 100) / 100;
+          if (
+            format === 'svg' ||
+            attempt >= MAX_DOWNSCALE_ATTEMPTS ||
+            nextScale < MIN_RENDER_SCALE
+          ) {
+            skipped.push({
+              nodeId,
+              format,
+              scale: variantScale,
+              reason: `Image is ${size} bytes, over the ${budget} byte budget per image`,
+            });
+            continue;
+          }
+          this.logger.debug(
+            `${nodeId} is ${size} bytes at ${variantScale}x, rendering again at ${nextScale}x`,
+          );
+          retry.set(nodeId, nextScale);
+        }
+      }
+
+      pending = retry;
+    }
+
+    return {
+      images: foundNodeIds.flatMap((nodeId) => images.get(nodeId) ?? []),
+      skipped,
+    };
+  }
+
+  /**
+   * Resolve a selection under the given root nodes into node IDs to export
+   * @returns Unique IDs of matching descendants, in document order
+   */
+  async selectNodeIds(
+    fileKey: string,
+    rootNodeIds: string[],
+    selection: NodeSelection,
+    useCache = true,
+    signal?: AbortSignal,
+  ): Promise<string[]> {
+    const nodesResponse = await this.client.getNodes(fileKey, rootNodeIds, useCache, signal);
+    const selected = new Set<string>();
+
+    for (const rootNodeId of rootNodeIds) {
+      const nodeData = nodesResponse.nodes[rootNodeId];
       if (!nodeData) {
-        console.warn(`No node data for ${nodeId}`);
+        this.logger.warn(`No node data for ${rootNodeId}`);
         continue;
       }
 
-      const nodeName = nodeData.document.name;
-      const fileName = this.generateFileName(fileKey, nodeId, nodeName, format);
-
-      console.log(`Downloading: ${fileName}`);
-
-      // Download image
-      const imageBuffer = await this.client.downloadImage(imageUrl);
-
-      // Save image
-      const imagePath = join(outputDir, fileName);
-      writeFileSync(imagePath, imageBuffer);
-      console.log(`Saved: ${imagePath}`);
-
-      // Save metadata if requested
-      if (withMetadata) {
-        const metadata: OutputMetadata = {
-          fileKey,
-          nodeId,
-          nodeName,
-          exportedAt: new Date().toISOString(),
-          scale,
-          format,
-          nodeData,
-        };
-
-        const metadataPath = join(outputDir, `${this.stripExtension(fileName)}.json`);
-        writeFileSync(metadataPath, JSON.stringify(metadata, null, 2), 'utf-8');
-        console.log(`Saved metadata: ${metadataPath}`);
+      for (const node of selectNodes(nodeData.document, selection)) {
+        selected.add(node.id);
       }
     }
 
-    console.log(`\nExported ${nodeIds.length} image(s) to ${outputDir}`);
+    return [...selected];
+  }
+
+  private groupByScale(scales: Map<string, number>): Map<number, string[]> {
+    const groups = new Map<number, string[]>();
+    for (const [nodeId, scale] of scales) {
+      groups.set(scale, [...(groups.get(scale) ?? []), nodeId]);
+    }
+    return groups;
+  }
+
+  private imageCacheKey(
+    fileKey: string,
+    nodeId: string,
+    variant: ExportVariant,
+    lastModified: string,
+  ): ImageCacheKey {
+    return { fileKey, nodeId, format: variant.format, scale: variant.scale, lastModified };
   }
 
   /**
-   * Generate safe filename from file key, node ID, and node name
-   * Format: {fileKey}_{nodeId}_{nodeName}.{ext}
+   * Look up page and parent names for nodes whose file names need them
    */
-  private generateFileName(
+  private async getAncestorNames(
     fileKey: string,
-    nodeId: string,
-    nodeName: string,
-    format: string,
-  ): string {
-    const safeNodeName = this.sanitizeFileName(nodeName);
-    const safeNodeId = nodeId.replace(/:/g, '-');
-    return `${fileKey}_${safeNodeId}_${safeNodeName}.${format}`;
+    nodeIds: string[],
+    signal?: AbortSignal,
+  ): Promise<Record<string, string[]>> {
+    const ancestors: Record<string, string[]> = {};
+    for (const document of await this.client.getFileDocuments(fileKey, nodeIds, signal)) {
+      Object.assign(ancestors, findAncestorNames(document, nodeIds));
+    }
+    return ancestors;
+  }
+
+  /**
+   * Generate a file name for every node and variant.
+   * Names that collide within the run get the node ID appended.
+   * @returns Variant key -> file name relative to the output directory
+   * @throws InvalidArgumentError when a name would resolve outside the output directory
+   */
+  private planFileNames(
+    template: string,
+    outputDir: string,
+    fileKey: string,
+    nodeIds: string[],
+    variants: ExportVariant[],
+    nodesResponse: GetNodesResponse,
+    ancestors: Record<string, string[]>,
+  ): Map<string, string> {
+    const fileNames = new Map<string, string>();
+    const used = new Set<string>();
+
+    for (const variant of variants) {
+      // Without {scale} in the template, @{scale}x suffixes are needed when one
+      // format is exported at several scales
+      const scaleSuffix =
+        !template.includes('{scale}') &&
+        variants.filter((other) => other.format === variant.format).length > 1 &&
+        variant.scale !== 1
+          ? `@${variant.scale}x`
+          : '';
+
+      for (const nodeId of nodeIds) {
+        const nodeData = nodesResponse.nodes[nodeId];
+        if (!nodeData) {
+          continue;
+        }
+
+        const [page = '', ...path] = ancestors[nodeId] ?? [];
+        let fileName = this.addSuffix(
+          this.generateFileName(template, {
+            fileKey,
+            nodeId: nodeId.replace(/:/g, '-'),
+            name: this.sanitizePathSegment(nodeData.document.name),
+            slug: this.sanitizeFileName(nodeData.document.name),
+            page: this.sanitizePathSegment(page),
+            path: path.map((segment) => this.sanitizePathSegment(segment)).join('/'),
+            scale: String(variant.scale),
+            format: variant.format,
+            ext: variant.format,
+          }),
+          scaleSuffix,
+        );
+
+        if (!isInsideDirectory(outputDir, join(outputDir, fileName))) {
+          throw new InvalidArgumentError(
+            `File name ${fileName} for node ${nodeId} resolves outside ${outputDir}`,
+            { fileKey, nodeId },
+          );
+        }
+
+        // Compare case-insensitively, since macOS and Windows file systems are
+        if (used.has(fileName.toLowerCase())) {
+          const unique = this.addSuffix(fileName, `-${nodeId.replace(/:/g, '-')}`);
+          this.logger.warn(`File name collision: ${fileName} (node ${nodeId}), using ${unique}`);
+          fileName = unique;
+        }
+        used.add(fileName.toLowerCase());
+        fileNames.set(this.variantKey(nodeId, variant), fileName);
+      }
+    }
+
+    return fileNames;
+  }
+
+  private variantKey(nodeId: string, variant: { format: string; scale: number }): string {
+    return `${nodeId}|${variant.format}|${variant.scale}`;
+  }
+
+  /**
+   * Fill in a file name template. `/` in the template creates subdirectories;
+   * empty segments (e.g. an empty {path}) are dropped.
+   * Placeholders: {fileKey}, {nodeId}, {name}, {slug}, {page}, {path}, {scale}, {format}, {ext}
+   */
+  private generateFileName(template: string, values: Record<string, string>): string {
+    return template
+      .replace(/\{(\w+)\}/g, (placeholder, key: string) => values[key] ?? placeholder)
+      .split('/')
+      .filter((segment) => segment.length > 0)
+      .join('/');
+  }
+
+  /**
+   * Make a name safe as a single path segment, keeping its case
+   */
+  private sanitizePathSegment(name: string): string {
+    return name
+      .replace(/[<>:"/\\|?*]/g, '_') // Replace invalid characters
+      .replace(/\s+/g, ' ') // Collapse whitespace
+      .trim()
+      .replace(/^\.+/, ''); // No hidden files or parent references
   }
 
   /**
-   * Sanitize file name by removing invalid characters
+   * Sanitize file name by removing invalid characters ({slug})
    */
   private sanitizeFileName(name: string): string {
     return name
@@ -154,11 +756,18 @@ export class ImageExporter {
       .substring(0, 50); // Limit length
   }
 
+  /**
+   * Insert a suffix before the file extension
+   */
+  private addSuffix(fileName: string, suffix: string): string {
+    return suffix ? fileName.replace(/(\.[^./]+)?$/, `${suffix}$1`) : fileName;
+  }
+
   /**
    * Strip file extension
    */
   private stripExtension(fileName: string): string {
-    return fileName.replace(/\.[^.]+$/, '');
+    return fileName.replace(/\.[^./]+$/, '');
   }
 
   /**
@@ -207,7 +816,7 @@ export class ImageExporter {
         boundsInfo = ` {x=${x},y=${y},width=${w},height=${h}}`;
       }
 
-      console.log(nodeInfo + idInfo + boundsInfo);
+      this.logger.info(nodeInfo + idInfo + boundsInfo);
     }
 
     // Recursively print children (always traverse, even if parent was excluded)
@@ -0,0 +1,195 @@
+// Copyright 2025
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { readFileSync } from 'node:fs';
+import { dirname, resolve } from 'node:path';
+import { z } from 'zod';
+import { FigmaError, type FigmaErrorCode, InvalidArgumentError } from '../client/errors.js';
+import type { ExportResult } from '../client/types.js';
+import { type Logger, defaultLogger } from '../utils/logger.js';
+import {
+  DEFAULT_FILE_NAME_TEMPLATE,
+  type ImageExporter,
+  buildVariants,
+  summarizeExport,
+} from './image-exporter.js';
+import { hasSelection, isValidNamePattern } from './node-selector.js';
+import { parseFileKey, resolveNodeIds } from './url-parser.js';
+
+export const DEFAULT_MANIFEST_PATH = 'figma-export.json';
+
+// Settings shared by the manifest defaults and each entry
+const ExportSettingsSchema = z.object({
+  scale: z
+    .union([z.number().min(1).max(4), z.array(z.number().min(1).max(4)).min(1)])
+    .optional()
+    .describe('Scale factor or list of scale factors (1-4)'),
+  format: z
+    .union([
+      z.enum(['png', 'jpg', 'svg', 'pdf']),
+      z.array(z.enum(['png', 'jpg', 'svg', 'pdf'])).min(1),
+    ])
+    .optional()
+    .describe('Image format or list of formats'),
+  outputDir: z.string().optional().describe('Output directory, relative to the manifest'),
+  fileName: z
+    .string()
+    .optional()
+    .describe('File name template relative to outputDir, e.g. {page}/{path}/{name}@{scale}x.{ext}'),
+  withMetadata: z.boolean().optional().describe('Save metadata JSON alongside images'),
+  concurrency: z.number().int().min(1).optional().describe('Maximum simultaneous downloads'),
+});
+
+const ManifestEntrySchema = ExportSettingsSchema.extend({
+  name: z.string().optional().describe('Label shown in the summary'),
+  figmaUrl: z.string().describe('Figma file URL'),
+  nodeIds: z
+    .array(z.string())
+    .optional()
+    .describe('Node IDs to export (optional if URL contains node-id)'),
+  select: z
+    .object({
+      types: z.array(z.string()).optional().describe('Node types to match, e.g. COMPONENT'),
+      name: z
+        .string()
+        .refine(isValidNamePattern, 'Invalid regular expression')
+        .optional()
+        .describe('Regular expression matched against node names'),
+      maxDepth: z.number().int().min(1).optional().describe('Maximum depth below the nodes'),
+    })
+    .optional()
+    .describe('Export descendants of the nodes instead of the nodes themselves'),
+});
+
+export const ManifestSchema = z.object({
+  $schema: z.string().optional(),
+  defaults: ExportSettingsSchema.optional().describe('Settings applied to every entry'),
+  exports: z.array(ManifestEntrySchema).min(1).describe('Export entries, run in order'),
+});
+
+export type Manifest = z.infer<typeof ManifestSchema>;
+export type ManifestEntry = z.infer<typeof ManifestEntrySchema>;
+
+export interface ManifestEntryResult {
+  name: string;
+  fileKey?: string;
+  outputDir: string;
+  summary: string;
+  success: boolean;
+  error?: string;
+  errorCode?: FigmaErrorCode;
+  result?: ExportResult;
+}
+
+/**
+ * Load and validate a manifest file
+ * @param path Path to the manifest JSON
+ * @returns Parsed manifest
+ */
+export function loadManifest(path: string): Manifest {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(path, 'utf-8'));
+  } catch (error) {
+    throw new InvalidArgumentError(
+      `Failed to read manifest ${path}: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+
+  const result = ManifestSchema.safeParse(raw);
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((issue) => `  ${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('\n');
+    throw new InvalidArgumentError(`Invalid manifest ${path}:\n${issues}`);
+  }
+
+  return result.data;
+}
+
+/**
+ * Run every entry of a manifest through the exporter.
+ * A failing entry is reported in the summary and does not stop the others.
+ * @param manifest Parsed manifest
+ * @param manifestPath Path of the manifest, used to resolve relative output directories
+ * @param exporter Image exporter to run entries with
+ * @param options Options applied to all entries
+ * @returns Per-entry results
+ */
+export async function runManifest(
+  manifest: Manifest,
+  manifestPath: string,
+  exporter: ImageExporter,
+  options: { useCache?: boolean; verbose?: boolean; logger?: Logger } = {},
+): Promise<ManifestEntryResult[]> {
+  const { useCache = true, verbose = false, logger = defaultLogger } = options;
+  const baseDir = dirname(resolve(manifestPath));
+  const results: ManifestEntryResult[] = [];
+
+  for (const [index, entry] of manifest.exports.entries()) {
+    const settings = { ...manifest.defaults, ...entry };
+    const name = entry.name ?? `#${index + 1}`;
+    const outputDir = resolve(baseDir, settings.outputDir ?? './output');
+    const result: ManifestEntryResult = { name, outputDir, summary: '', success: false };
+    results.push(result);
+
+    logger.info(`\n[${name}] ${entry.figmaUrl}`);
+
+    try {
+      const fileKey = parseFileKey(entry.figmaUrl);
+      result.fileKey = fileKey;
+
+      let nodeIds = resolveNodeIds(entry.figmaUrl, entry.nodeIds);
+
+      if (entry.select) {
+        const selection = {
+          types: entry.select.types,
+          namePattern: entry.select.name,
+          maxDepth: entry.select.maxDepth,
+        };
+        if (hasSelection(selection)) {
+          nodeIds = await exporter.selectNodeIds(fileKey, nodeIds, selection, useCache);
+        }
+      }
+
+      if (nodeIds.length === 0) {
+        throw new InvalidArgumentError('No nodes matched the selection.', { fileKey });
+      }
+
+      const formats = settings.format ?? 'png';
+      const scales = settings.scale ?? 2;
+      const exportResult = await exporter.exportImages(fileKey, nodeIds, outputDir, {
+        variants: buildVariants(
+          Array.isArray(formats) ? formats : [formats],
+          Array.isArray(scales) ? scales : [scales],
+        ),
+        withMetadata: settings.withMetadata,
+        concurrency: settings.concurrency,
+        fileNameTemplate: settings.fileName ?? DEFAULT_FILE_NAME_TEMPLATE,
+        useCache,
+        verbose,
+      });
+
+      result.result = exportResult;
+      result.summary = summarizeExport(exportResult);
+      result.success = exportResult.errors.length === 0 && exportResult.files.length > 0;
+    } catch (error) {
+      result.error = error instanceof Error ? error.message : String(error);
+      result.errorCode = error instanceof FigmaError ? error.code : undefined;
+      logger.error(`[${name}] Failed: ${result.error}`);
+    }
+  }
+
+  return results;
+}
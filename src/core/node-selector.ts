@@ -0,0 +1,110 @@
+// Copyright 2025
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { InvalidArgumentError } from '../client/errors.js';
+import type { Node } from '../client/types.js';
+
+export interface NodeSelection {
+  types?: string[]; // Node types to match, e.g. COMPONENT or FRAME
+  namePattern?: string; // Regular expression matched against node names
+  maxDepth?: number; // 1 = direct children of the root only
+}
+
+/**
+ * Select descendants of a node by type, name and depth.
+ * Hidden nodes and their subtrees are skipped, since Figma cannot render them.
+ * @param root Root node (not itself a candidate)
+ * @param selection Selection criteria; omitted criteria match everything
+ * @returns Matching nodes in document order
+ */
+export function selectNodes(root: Node, selection: NodeSelection): Node[] {
+  const types = selection.types?.map((type) => type.toUpperCase());
+  if (selection.namePattern && !isValidNamePattern(selection.namePattern)) {
+    throw new InvalidArgumentError(`Invalid name pattern: ${selection.namePattern}`);
+  }
+  const namePattern = selection.namePattern ? new RegExp(selection.namePattern) : null;
+  const maxDepth = selection.maxDepth ?? Number.POSITIVE_INFINITY;
+  const matches: Node[] = [];
+
+  const visit = (node: Node, depth: number): void => {
+    if (depth > maxDepth || node.visible === false) {
+      return;
+    }
+
+    const typeMatches = !types || types.includes(node.type);
+    const nameMatches = !namePattern || namePattern.test(node.name);
+    if (typeMatches && nameMatches) {
+      matches.push(node);
+    }
+
+    for (const child of node.children ?? []) {
+      visit(child, depth + 1);
+    }
+  };
+
+  for (const child of root.children ?? []) {
+    visit(child, 1);
+  }
+
+  return matches;
+}
+
+/**
+ * Check whether a name pattern compiles as a regular expression
+ */
+export function isValidNamePattern(pattern: string): boolean {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check whether a selection has any criteria set
+ */
+export function hasSelection(selection: NodeSelection): boolean {
+  return Boolean(
+    (selection.types && selection.types.length > 0) ||
+      selection.namePattern ||
+      selection.maxDepth !== undefined,
+  );
+}
+
+/**
+ * Find the ancestor names of the given nodes
+ * @param root Document root (its own name is not included)
+ * @param nodeIds Node IDs to look up
+ * @returns Node ID -> ancestor names from the page down to the parent
+ */
+export function findAncestorNames(root: Node, nodeIds: string[]): Record<string, string[]> {
+  const wanted = new Set(nodeIds);
+  const ancestors: Record<string, string[]> = {};
+
+  const visit = (node: Node, names: string[]): void => {
+    if (wanted.has(node.id)) {
+      ancestors[node.id] = names;
+    }
+    for (const child of node.children ?? []) {
+      visit(child, [...names, node.name]);
+    }
+  };
+
+  for (const child of root.children ?? []) {
+    visit(child, []);
+  }
+
+  return ancestors;
+}
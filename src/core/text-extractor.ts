@@ -0,0 +1,245 @@
+// Copyright 2025
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { NodeNotFoundError } from '../client/errors.js';
+import type { FigmaApiClient } from '../client/figma-api.js';
+import type {
+  AbsoluteBoundingBox,
+  GetNodesResponse,
+  Node,
+  TextNode,
+  TypeStyle,
+} from '../client/types.js';
+
+// Full entries as JSON, a flat key/value bundle, or XLIFF 1.2
+export type TextFormat = 'json' | 'i18n' | 'xliff';
+
+export const TEXT_FORMATS: readonly TextFormat[] = ['json', 'i18n', 'xliff'];
+
+export const TEXT_FILE_NAMES: Record<TextFormat, string> = {
+  json: 'texts.json',
+  i18n: 'messages.json',
+  xliff: 'messages.xlf',
+};
+
+export interface TextFont {
+  family?: string;
+  size?: number;
+  weight?: number;
+  italic?: boolean;
+}
+
+// Characters [start, end) styled differently from the rest of the text
+export interface TextStyleRange {
+  start: number;
+  end: number;
+  text: string;
+  font: TextFont;
+}
+
+export interface TextEntry {
+  key: string; // Unique i18n key built from the path, e.g. "login.form.title"
+  nodeId: string;
+  path: string[]; // Node names from the root down to the text node
+  text: string;
+  bounds?: AbsoluteBoundingBox; // Relative to the root node
+  font: TextFont;
+  ranges: TextStyleRange[];
+}
+
+/**
+ * Fetch nodes and extract the text under them
+ * @returns Text entries, and the nodes that were not found in the file
+ */
+export async function fetchText(
+  client: FigmaApiClient,
+  fileKey: string,
+  nodeIds: string[],
+  useCache = true,
+  signal?: AbortSignal,
+): Promise<{ texts: TextEntry[]; fileName: string; missing: string[] }> {
+  const response = await client.getNodes(fileKey, nodeIds, useCache, signal);
+  const missing = nodeIds.filter((nodeId) => !response.nodes[nodeId]);
+  if (missing.length === nodeIds.length) {
+    throw new NodeNotFoundError(`Node ${nodeIds.join(', ')} not found in file ${fileKey}`, {
+      fileKey,
+      nodeId: nodeIds.length === 1 ? nodeIds[0] : undefined,
+    });
+  }
+
+  return { texts: extractText(response, nodeIds), fileName: response.name, missing };
+}
+
+/**
+ * Collect the visible text nodes under the given roots, in document order
+ * @param response Nodes endpoint response
+ * @param nodeIds Root nodes to walk
+ * @returns One entry per non-empty text node
+ */
+export function extractText(response: GetNodesResponse, nodeIds: string[]): TextEntry[] {
+  const entries: TextEntry[] = [];
+  const keys = new Set<string>();
+
+  const visit = (node: Node, path: string[], origin: { x: number; y: number }): void => {
+    if (node.visible === false) {
+      return;
+    }
+
+    const nodePath = [...path, node.name];
+    if (node.type === 'TEXT' && node.characters.trim()) {
+      let key = textKey(nodePath);
+      if (keys.has(key)) {
+        key = `${key}_${node.id.replace(/[^a-zA-Z0-9]+/g, '-')}`;
+      }
+      keys.add(key);
+
+      const box = node.absoluteBoundingBox;
+      entries.push({
+        key,
+        nodeId: node.id,
+        path: nodePath,
+        text: node.characters,
+        bounds: box && {
+          x: box.x - origin.x,
+          y: box.y - origin.y,
+          width: box.width,
+          height: box.height,
+        },
+        font: textFont(node.style),
+        ranges: styleRanges(node),
+      });
+    }
+
+    for (const child of node.children ?? []) {
+      visit(child, nodePath, origin);
+    }
+  };
+
+  for (const nodeId of nodeIds) {
+    const root = response.nodes[nodeId]?.document;
+    if (root) {
+      const box = root.absoluteBoundingBox;
+      visit(root, [], box ? { x: box.x, y: box.y } : { x: 0, y: 0 });
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Write text entries in one output format
+ * @param sourceLanguage Language of the design's copy, for XLIFF
+ * @returns File contents
+ */
+export function formatText(
+  entries: TextEntry[],
+  format: TextFormat,
+  sourceLanguage = 'en',
+): string {
+  switch (format) {
+    case 'json':
+      return `${JSON.stringify(entries, null, 2)}\n`;
+    case 'i18n': {
+      const bundle = Object.fromEntries(entries.map((entry) => [entry.key, entry.text]));
+      return `${JSON.stringify(bundle, null, 2)}\n`;
+    }
+    case 'xliff':
+      return toXliff(entries, sourceLanguage);
+  }
+}
+
+/**
+ * Write text entries as an XLIFF 1.2 file with the design's copy as source strings
+ */
+export function toXliff(entries: TextEntry[], sourceLanguage: string): string {
+  const units = entries.map((entry) =>
+    [
+      `      <trans-unit id="${escapeXml(entry.key)}">`,
+      `        <source>${escapeXml(entry.text)}</source>`,
+      `        <note>${escapeXml(`${entry.path.join(' / ')} (${entry.nodeId})`)}</note>`,
+      '      </trans-unit>',
+    ].join('\n'),
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<xliff version="1.2" xmlns="urn:oasis:names:tc:xliff:document:1.2">',
+    `  <file source-language="${escapeXml(sourceLanguage)}" datatype="plaintext" original="figma">`,
+    '    <body>',
+    ...units,
+    '    </body>',
+    '  </file>',
+    '</xliff>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Split a text node into runs of characters sharing a style override
+ */
+function styleRanges(node: TextNode): TextStyleRange[] {
+  const overrides = node.characterStyleOverrides ?? [];
+  const ranges: TextStyleRange[] = [];
+
+  let start = 0;
+  for (let index = 1; index <= overrides.length; index++) {
+    const current = overrides[start] ?? 0;
+    if (index < overrides.length && overrides[index] === current) {
+      continue;
+    }
+
+    // 0 means the node's own style; characters past the end of the list use it too
+    const override = node.styleOverrideTable?.[String(current)];
+    if (current !== 0 && override) {
+      ranges.push({
+        start,
+        end: index,
+        text: node.characters.slice(start, index),
+        font: textFont({ ...node.style, ...override }),
+      });
+    }
+    start = index;
+  }
+
+  return ranges;
+}
+
+function textFont(style: TypeStyle): TextFont {
+  return {
+    family: style.fontFamily,
+    size: style.fontSize,
+    weight: style.fontWeight,
+    ...(style.italic && { italic: true }),
+  };
+}
+
+function textKey(path: string[]): string {
+  const segments = path
+    .map((name) =>
+      name
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '_')
+        .replace(/^_+|_+$/g, ''),
+    )
+    .filter(Boolean);
+  return segments.length > 0 ? segments.join('.') : 'text';
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
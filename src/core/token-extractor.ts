@@ -0,0 +1,557 @@
+// Copyright 2025
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { NodeNotFoundError } from '../client/errors.js';
+import type { FigmaApiClient } from '../client/figma-api.js';
+import { hasCorners, isContainerNode, isSceneNode } from '../client/nodes.js';
+import type {
+  Color,
+  Effect,
+  GetNodesResponse,
+  Node,
+  Paint,
+  SceneNode,
+  Style,
+  TypeStyle,
+} from '../client/types.js';
+
+export type TokenFormat = 'json' | 'css' | 'tailwind';
+
+export const TOKEN_FORMATS: readonly TokenFormat[] = ['json', 'css', 'tailwind'];
+
+export const TOKEN_FILE_NAMES: Record<TokenFormat, string> = {
+  json: 'tokens.json',
+  css: 'tokens.css',
+  tailwind: 'tailwind.tokens.cjs',
+};
+
+export type TokenCategory = 'color' | 'typography' | 'shadow' | 'spacing' | 'radius';
+
+export interface TypographyValue {
+  fontFamily: string;
+  fontWeight: number;
+  fontSize: number; // Pixels
+  lineHeight?: number; // Multiple of the font size
+  letterSpacing: number; // Pixels
+  italic: boolean;
+}
+
+export interface ShadowValue {
+  color: string;
+  offsetX: number;
+  offsetY: number;
+  blur: number;
+  spread: number;
+  inset: boolean;
+}
+
+export interface GradientStop {
+  color: string;
+  position: number; // 0 to 1
+}
+
+interface TokenBase {
+  category: TokenCategory;
+  path: string[]; // Slugged name within the category, e.g. ["brand", "primary-500"]
+  description?: string;
+}
+
+export type DesignToken = TokenBase &
+  (
+    | { type: 'color'; value: string }
+    | { type: 'gradient'; value: GradientStop[]; angle: number } // CSS angle in degrees
+    | { type: 'typography'; value: TypographyValue }
+    | { type: 'shadow'; value: ShadowValue[] }
+    | { type: 'dimension'; value: number } // Pixels
+  );
+
+/**
+ * Fetch nodes and extract the design tokens used in their subtrees
+ * @returns Tokens, and the nodes that were not found in the file
+ */
+export async function fetchTokens(
+  client: FigmaApiClient,
+  fileKey: string,
+  nodeIds: string[],
+  useCache = true,
+  signal?: AbortSignal,
+): Promise<{ tokens: DesignToken[]; fileName: string; missing: string[] }> {
+  const response = await client.getNodes(fileKey, nodeIds, useCache, signal);
+  const missing = nodeIds.filter((nodeId) => !response.nodes[nodeId]);
+  if (missing.length === nodeIds.length) {
+    throw new NodeNotFoundError(`Node ${nodeIds.join(', ')} not found in file ${fileKey}`, {
+      fileKey,
+      nodeId: nodeIds.length === 1 ? nodeIds[0] : undefined,
+    });
+  }
+
+  return { tokens: extractTokens(response, nodeIds), fileName: response.name, missing };
+}
+
+/**
+ * Count tokens per category
+ */
+export function countTokens(tokens: DesignToken[]): Record<TokenCategory, number> {
+  const counts: Record<TokenCategory, number> = {
+    color: 0,
+    typography: 0,
+    shadow: 0,
+    spacing: 0,
+    radius: 0,
+  };
+  for (const token of tokens) {
+    counts[token.category]++;
+  }
+  return counts;
+}
+
+/**
+ * Extract design tokens from node subtrees.
+ * Colors, typography and shadows come from named styles applied anywhere in the
+ * subtrees; spacing and radius scales from the auto-layout gaps, paddings and corner
+ * radii in use, since Figma has no named styles for them.
+ * @param response Nodes endpoint response, including its styles
+ * @param nodeIds Root nodes to walk
+ * @returns Tokens, ordered by category and name
+ */
+export function extractTokens(response: GetNodesResponse, nodeIds: string[]): DesignToken[] {
+  const styles: Record<string, Style> = Object.assign(
+    {},
+    ...Object.values(response.nodes).map((nodeData) => nodeData?.styles ?? {}),
+  );
+  const tokens = new Map<string, DesignToken>();
+  const spacing = new Set<number>();
+  const radii = new Set<number>();
+
+  const add = (token: DesignToken | null): void => {
+    const key = `${token?.category}/${token?.path.join('/')}`;
+    // The first node using a style defines its value
+    if (token && !tokens.has(key)) {
+      tokens.set(key, token);
+    }
+  };
+
+  // Resolve the named styles a node uses into tokens
+  const addStyleTokens = (node: SceneNode): void => {
+    for (const [target, styleId] of Object.entries(node.styles ?? {})) {
+      const style = styles[styleId];
+      if (!style) {
+        continue;
+      }
+      const base = { path: stylePath(style.name), description: style.description || undefined };
+      if (style.styleType === 'FILL') {
+        add(paintToken(target.startsWith('stroke') ? node.strokes : node.fills, base));
+      } else if (style.styleType === 'TEXT' && node.type === 'TEXT') {
+        add(typographyToken(node.style, base));
+      } else if (style.styleType === 'EFFECT') {
+        add(shadowToken(node.effects, base));
+      }
+    }
+  };
+
+  const visit = (node: Node): void => {
+    if (node.visible === false) {
+      return;
+    }
+
+    if (isSceneNode(node)) {
+      addStyleTokens(node);
+    }
+    if (isContainerNode(node) && node.layoutMode && node.layoutMode !== 'NONE') {
+      for (const value of [
+        node.itemSpacing,
+        node.paddingTop,
+        node.paddingRight,
+        node.paddingBottom,
+        node.paddingLeft,
+      ]) {
+        if (value && value > 0) {
+          spacing.add(value);
+        }
+      }
+    }
+    if (hasCorners(node) && node.cornerRadius && node.cornerRadius > 0) {
+      radii.add(node.cornerRadius);
+    }
+
+    for (const child of node.children ?? []) {
+      visit(child);
+    }
+  };
+
+  for (const nodeId of nodeIds) {
+    const root = response.nodes[nodeId]?.document;
+    if (root) {
+      visit(root);
+    }
+  }
+
+  for (const value of [...spacing].sort((a, b) => a - b)) {
+    add({ category: 'spacing', path: [slug(String(value))], type: 'dimension', value });
+  }
+  for (const value of [...radii].sort((a, b) => a - b)) {
+    add({ category: 'radius', path: [slug(String(value))], type: 'dimension', value });
+  }
+
+  const order: TokenCategory[] = ['color', 'typography', 'shadow', 'spacing', 'radius'];
+  return [...tokens.values()].sort(
+    (a, b) =>
+      order.indexOf(a.category) - order.indexOf(b.category) ||
+      (a.type === 'dimension' && b.type === 'dimension'
+        ? a.value - b.value
+        : a.path.join('/').localeCompare(b.path.join('/'))),
+  );
+}
+
+/**
+ * Write tokens in one output format
+ * @returns File contents
+ */
+export function formatTokens(tokens: DesignToken[], format: TokenFormat): string {
+  switch (format) {
+    case 'json':
+      return `${JSON.stringify(toW3cTokens(tokens), null, 2)}\n`;
+    case 'css':
+      return toCssVariables(tokens);
+    case 'tailwind':
+      return toTailwindTheme(tokens);
+  }
+}
+
+/**
+ * Nest tokens into groups in the W3C design tokens format
+ */
+export function toW3cTokens(tokens: DesignToken[]): Record<string, unknown> {
+  const root: Record<string, unknown> = {};
+
+  for (const token of tokens) {
+    let value: unknown;
+    switch (token.type) {
+      case 'color':
+      case 'gradient':
+        value = token.value;
+        break;
+      case 'typography':
+        value = {
+          fontFamily: token.value.fontFamily,
+          fontWeight: token.value.fontWeight,
+          fontSize: px(token.value.fontSize),
+          ...(token.value.lineHeight !== undefined && { lineHeight: token.value.lineHeight }),
+          letterSpacing: px(token.value.letterSpacing),
+        };
+        break;
+      case 'shadow':
+        value = token.value.map((shadow) => ({
+          color: shadow.color,
+          offsetX: px(shadow.offsetX),
+          offsetY: px(shadow.offsetY),
+          blur: px(shadow.blur),
+          spread: px(shadow.spread),
+          ...(shadow.inset && { inset: true }),
+        }));
+        break;
+      case 'dimension':
+        value = px(token.value);
+        break;
+    }
+
+    setNested(root, [token.category, ...token.path], {
+      $type: token.type,
+      $value: value,
+      ...(token.description && { $description: token.description }),
+    });
+  }
+
+  return root;
+}
+
+/**
+ * Write tokens as CSS custom properties on :root; typography expands into one
+ * property per font setting
+ */
+export function toCssVariables(tokens: DesignToken[]): string {
+  const lines: string[] = [];
+
+  for (const token of tokens) {
+    const name = `--${[token.category, ...token.path].join('-')}`;
+    switch (token.type) {
+      case 'color':
+        lines.push(`  ${name}: ${token.value};`);
+        break;
+      case 'gradient':
+        lines.push(`  ${name}: ${cssGradient(token.value, token.angle)};`);
+        break;
+      case 'typography':
+        lines.push(`  ${name}-font-family: ${cssFontFamily(token.value.fontFamily)};`);
+        lines.push(`  ${name}-font-weight: ${token.value.fontWeight};`);
+        lines.push(`  ${name}-font-size: ${px(token.value.fontSize)};`);
+        if (token.value.lineHeight !== undefined) {
+          lines.push(`  ${name}-line-height: ${token.value.lineHeight};`);
+        }
+        lines.push(`  ${name}-letter-spacing: ${px(token.value.letterSpacing)};`);
+        if (token.value.italic) {
+          lines.push(`  ${name}-font-style: italic;`);
+        }
+        break;
+      case 'shadow':
+        lines.push(`  ${name}: ${cssShadow(token.value)};`);
+        break;
+      case 'dimension':
+        lines.push(`  ${name}: ${px(token.value)};`);
+        break;
+    }
+  }
+
+  return `:root {\n${lines.join('\n')}\n}\n`;
+}
+
+/**
+ * Write tokens as a Tailwind CSS theme extension, usable as a preset:
+ * `presets: [require('./tailwind.tokens.cjs')]`
+ */
+export function toTailwindTheme(tokens: DesignToken[]): string {
+  const theme = {
+    colors: {} as Record<string, unknown>,
+    backgroundImage: {} as Record<string, string>,
+    fontFamily: {} as Record<string, string[]>,
+    fontSize: {} as Record<string, [string, Record<string, string>]>,
+    boxShadow: {} as Record<string, string>,
+    spacing: {} as Record<string, string>,
+    borderRadius: {} as Record<string, string>,
+  };
+
+  for (const token of tokens) {
+    const name = token.path.join('-');
+    switch (token.type) {
+      case 'color':
+        setNested(theme.colors, token.path, token.value);
+        break;
+      case 'gradient':
+        theme.backgroundImage[name] = cssGradient(token.value, token.angle);
+        break;
+      case 'typography':
+        theme.fontFamily[name] = [token.value.fontFamily];
+        theme.fontSize[name] = [
+          px(token.value.fontSize),
+          {
+            ...(token.value.lineHeight !== undefined && {
+              lineHeight: String(token.value.lineHeight),
+            }),
+            letterSpacing: px(token.value.letterSpacing),
+            fontWeight: String(token.value.fontWeight),
+          },
+        ];
+        break;
+      case 'shadow':
+        theme.boxShadow[name] = cssShadow(token.value);
+        break;
+      case 'dimension':
+        theme[token.category === 'radius' ? 'borderRadius' : 'spacing'][name] = px(token.value);
+        break;
+    }
+  }
+
+  const extend = Object.fromEntries(
+    Object.entries(theme).filter(([, values]) => Object.keys(values).length > 0),
+  );
+  return `/** @type {import('tailwindcss').Config} */\nmodule.exports = ${JSON.stringify({ theme: { extend } }, null, 2)};\n`;
+}
+
+/**
+ * Turn a style name like "Brand/Primary 500" into a token path
+ */
+export function stylePath(name: string): string[] {
+  const path = name.split('/').map(slug).filter(Boolean);
+  return path.length > 0 ? path : ['unnamed'];
+}
+
+/**
+ * CSS value of a paint: a hex color or a linear gradient
+ * @returns null for hidden paints, images and other gradients
+ */
+export function cssPaint(paint: Paint): string | null {
+  const token = paintToken([paint], { path: [] });
+  if (token?.type === 'color') {
+    return token.value;
+  }
+  if (token?.type === 'gradient') {
+    return cssGradient(token.value, token.angle);
+  }
+  return null;
+}
+
+/**
+ * CSS properties for a node's visible effects
+ */
+export function cssEffects(effects: Effect[] | undefined): {
+  boxShadow?: string;
+  filter?: string;
+  backdropFilter?: string;
+} {
+  const visible = (effects ?? []).filter((effect) => effect.visible !== false);
+  const shadow = shadowToken(visible, { path: [] });
+  const blur = (type: Effect['type']) => {
+    const effect = visible.find((candidate) => candidate.type === type);
+    return effect ? `blur(${px(round(effect.radius))})` : undefined;
+  };
+  const filter = blur('LAYER_BLUR');
+  const backdropFilter = blur('BACKGROUND_BLUR');
+
+  return {
+    ...(shadow?.type === 'shadow' && { boxShadow: cssShadow(shadow.value) }),
+    ...(filter && { filter }),
+    ...(backdropFilter && { backdropFilter }),
+  };
+}
+
+function paintToken(
+  paints: Paint[] | undefined,
+  base: Omit<TokenBase, 'category'>,
+): DesignToken | null {
+  // Paints are listed bottom to top; the top visible one is what shows
+  const paint = paints?.filter((candidate) => candidate.visible !== false).at(-1);
+  if (!paint) {
+    return null;
+  }
+
+  const opacity = paint.opacity ?? 1;
+  if (paint.type === 'SOLID' && paint.color) {
+    return { ...base, category: 'color', type: 'color', value: hex(paint.color, opacity) };
+  }
+  if (paint.type === 'GRADIENT_LINEAR' && paint.gradientStops) {
+    const [start, end] = paint.gradientHandlePositions ?? [];
+    // Handles are in the node's unit square, y down; CSS angles run clockwise from the top
+    const angle =
+      start && end
+        ? Math.round(
+            ((Math.atan2(end.x - start.x, -(end.y - start.y)) * 180) / Math.PI + 360) % 360,
+          )
+        : 180;
+    return {
+      ...base,
+      category: 'color',
+      type: 'gradient',
+      angle,
+      value: paint.gradientStops.map((stop) => ({
+        color: hex(stop.color, opacity),
+        position: round(stop.position),
+      })),
+    };
+  }
+  return null; // Images and other gradients have no token form
+}
+
+function typographyToken(style: TypeStyle, base: Omit<TokenBase, 'category'>): DesignToken {
+  const fontSize = style.fontSize ?? 16;
+  return {
+    ...base,
+    category: 'typography',
+    type: 'typography',
+    value: {
+      fontFamily: style.fontFamily ?? 'sans-serif',
+      fontWeight: style.fontWeight ?? 400,
+      fontSize,
+      // Intrinsic line height means "auto"; leave it to the font
+      lineHeight:
+        style.lineHeightUnit !== 'INTRINSIC_%' && style.lineHeightPx
+          ? round(style.lineHeightPx / fontSize)
+          : undefined,
+      letterSpacing: round(style.letterSpacing ?? 0),
+      italic: style.italic ?? false,
+    },
+  };
+}
+
+function shadowToken(
+  effects: Effect[] | undefined,
+  base: Omit<TokenBase, 'category'>,
+): DesignToken | null {
+  const shadows = (effects ?? [])
+    .filter(
+      (effect) =>
+        effect.visible !== false &&
+        (effect.type === 'DROP_SHADOW' || effect.type === 'INNER_SHADOW'),
+    )
+    .map((effect) => ({
+      color: hex(effect.color ?? { r: 0, g: 0, b: 0, a: 0.25 }),
+      offsetX: round(effect.offset?.x ?? 0),
+      offsetY: round(effect.offset?.y ?? 0),
+      blur: round(effect.radius),
+      spread: round(effect.spread ?? 0),
+      inset: effect.type === 'INNER_SHADOW',
+    }));
+  return shadows.length > 0
+    ? { ...base, category: 'shadow', type: 'shadow', value: shadows }
+    : null;
+}
+
+function hex(color: Color, opacity = 1): string {
+  const channel = (value: number) =>
+    Math.round(Math.min(1, Math.max(0, value)) * 255)
+      .toString(16)
+      .padStart(2, '0');
+  const alpha = color.a * opacity;
+  return `#${channel(color.r)}${channel(color.g)}${channel(color.b)}${alpha < 1 ? channel(alpha) : ''}`;
+}
+
+function cssGradient(stops: GradientStop[], angle: number): string {
+  const parts = stops.map((stop) => `${stop.color} ${round(stop.position * 100)}%`);
+  return `linear-gradient(${angle}deg, ${parts.join(', ')})`;
+}
+
+function cssShadow(shadows: ShadowValue[]): string {
+  return shadows
+    .map(
+      (shadow) =>
+        `${shadow.inset ? 'inset ' : ''}${px(shadow.offsetX)} ${px(shadow.offsetY)} ${px(shadow.blur)} ${px(shadow.spread)} ${shadow.color}`,
+    )
+    .join(', ');
+}
+
+function cssFontFamily(family: string): string {
+  return /^[a-z-]+$/i.test(family) ? family : `"${family.replace(/"/g, '\\"')}"`;
+}
+
+function setNested(target: Record<string, unknown>, path: string[], value: unknown): void {
+  let group = target;
+  for (const key of path.slice(0, -1)) {
+    const next = group[key];
+    if (next === undefined) {
+      group[key] = {};
+    } else if (typeof next !== 'object' || next === null || '$value' in next) {
+      return; // A token already uses this name as a group
+    }
+    group = group[key] as Record<string, unknown>;
+  }
+
+  const last = path[path.length - 1] as string;
+  if (!(last in group)) {
+    group[last] = value;
+  }
+}
+
+function slug(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+function px(value: number): string {
+  return `${value}px`;
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
@@ -12,6 +12,8 @@
 // See the License for the specific language governing permissions and
 // limitations under the License.
 
+import { InvalidArgumentError, InvalidUrlError } from '../client/errors.js';
+
 /**
  * Parse Figma file key from URL
  * @param url Figma URL (e.g., https://www.figma.com/file/ABC123/...)
@@ -30,7 +32,7 @@ export function parseFileKey(url: string): string {
     }
   }
 
-  throw new Error(`Invalid Figma URL: ${url}`);
+  throw new InvalidUrlError(`Invalid Figma URL: ${url}`);
 }
 
 /**
@@ -72,3 +74,24 @@ export function normalizeNodeId(nodeId: string): string {
   // Format: number-number or number:number
   return nodeId.replace(/^(\d+)-(\d+)/, '$1:$2');
 }
+
+/**
+ * Resolve the node IDs a request targets: the given IDs, or else the URL's node-id
+ * @param url Figma URL
+ * @param nodeIds Node IDs in either format
+ * @returns Normalized node IDs
+ */
+export function resolveNodeIds(url: string, nodeIds?: string[]): string[] {
+  if (nodeIds && nodeIds.length > 0) {
+    return nodeIds.map((id) => normalizeNodeId(id));
+  }
+
+  const urlNodeId = parseNodeId(url);
+  if (urlNodeId) {
+    return [normalizeNodeId(urlNodeId)];
+  }
+
+  throw new InvalidArgumentError(
+    'Node IDs are required. Please provide nodeIds parameter or include node-id in the URL.',
+  );
+}
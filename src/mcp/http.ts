@@ -0,0 +1,214 @@
+// Copyright 2025
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { randomUUID, timingSafeEqual } from 'node:crypto';
+import { type IncomingMessage, type ServerResponse, createServer } from 'node:http';
+import { resolve } from 'node:path';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { createConsoleLogger } from '../utils/logger.js';
+import { FigmaMCPServer, createCacheManager, getLogLevel } from './server.js';
+
+export const MCP_HTTP_PATH = '/mcp';
+
+export interface HttpServerOptions {
+  port: number;
+  host: string;
+  authToken?: string; // Bearer token required on every request when set
+  outputRoot: string; // Directory clients may export to; their output directories resolve inside it
+}
+
+const LOOPBACK_HOSTS = ['localhost', '127.0.0.1', '::1'];
+const MAX_BODY_BYTES = 1024 * 1024; // JSON-RPC messages are small; larger bodies are refused
+const SESSION_IDLE_MS = 30 * 60 * 1000; // Sessions without requests for this long are closed
+const SESSION_SWEEP_INTERVAL_MS = 60 * 1000;
+
+// readJson's result for a body over MAX_BODY_BYTES
+const BODY_TOO_LARGE = Symbol('body too large');
+
+interface Session {
+  transport: StreamableHTTPServerTransport;
+  lastActive: number;
+  pending: number; // Requests in progress, including open event streams
+}
+
+/**
+ * Serve the MCP server over Streamable HTTP. Each client session gets its own
+ * server instance; all sessions share one cache.
+ */
+export async function runHttpServer(options: HttpServerOptions): Promise<void> {
+  // Fail at startup rather than on the first session
+  if (!process.env.FIGMA_PERSONAL_TOKEN) {
+    throw new Error(
+      'FIGMA_PERSONAL_TOKEN environment variable is required. Please set it before starting the MCP server.',
+    );
+  }
+  // Anyone who can reach the port could use the Figma token and write files
+  if (!options.authToken && !isLoopback(options.host)) {
+    throw new Error(
+      `Refusing to listen on ${options.host} without an auth token. Set --auth-token or FIGMA_MCP_AUTH_TOKEN, or bind to 127.0.0.1.`,
+    );
+  }
+
+  const logger = createConsoleLogger({ level: getLogLevel(), stderr: true });
+  const cacheManager = createCacheManager(logger);
+  const sessions = new Map<string, Session>();
+
+  // Clients that disconnect without DELETE would otherwise keep their server forever
+  const sweep = setInterval(() => {
+    const cutoff = Date.now() - SESSION_IDLE_MS;
+    for (const [id, session] of sessions) {
+      if (session.pending === 0 && session.lastActive < cutoff) {
+        logger.info(`Session ${id} idle for ${SESSION_IDLE_MS / 60_000} minutes, closing`);
+        session.transport
+          .close()
+          .catch((error) => logger.warn(`Failed to close session ${id}: ${error}`));
+      }
+    }
+  }, SESSION_SWEEP_INTERVAL_MS);
+  sweep.unref();
+
+  const handle = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    if (url.pathname !== MCP_HTTP_PATH) {
+      sendError(res, 404, 'Not found');
+      return;
+    }
+    if (options.authToken && !isAuthorized(req, options.authToken)) {
+      res.setHeader('WWW-Authenticate', 'Bearer');
+      sendError(res, 401, 'Unauthorized');
+      return;
+    }
+
+    const body = req.method === 'POST' ? await readJson(req) : undefined;
+    if (body === BODY_TOO_LARGE) {
+      res.setHeader('Connection', 'close');
+      sendError(res, 413, `Payload too large (limit ${MAX_BODY_BYTES} bytes)`);
+      return;
+    }
+
+    // Requests in an existing session go to its transport
+    const sessionId = req.headers['mcp-session-id'];
+    const existing = typeof sessionId === 'string' ? sessions.get(sessionId) : undefined;
+    if (existing) {
+      // The body has been read, so the transport can't parse it itself
+      if (req.method === 'POST' && body === undefined) {
+        sendError(res, 400, 'Parse error: Invalid JSON');
+        return;
+      }
+      existing.pending++;
+      try {
+        await existing.transport.handleRequest(req, res, body);
+      } finally {
+        existing.pending--;
+        existing.lastActive = Date.now();
+      }
+      return;
+    }
+
+    // Anything else must start a new session
+    if (sessionId !== undefined || !isInitializeRequest(body)) {
+      sendError(res, 400, 'Bad Request: No valid session ID provided');
+      return;
+    }
+
+    const server = new FigmaMCPServer(cacheManager, options.outputRoot);
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        sessions.set(id, { transport, lastActive: Date.now(), pending: 0 });
+        logger.info(`Session ${id} started (${sessions.size} active)`);
+      },
+    });
+    transport.onclose = () => {
+      if (transport.sessionId && sessions.delete(transport.sessionId)) {
+        logger.info(`Session ${transport.sessionId} closed (${sessions.size} active)`);
+      }
+    };
+
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  };
+
+  const httpServer = createServer((req, res) => {
+    handle(req, res).catch((error) => {
+      logger.error(`Failed to handle ${req.method} ${req.url}: ${error}`);
+      if (!res.headersSent) {
+        sendError(res, 500, 'Internal server error');
+      }
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, resolve);
+  });
+  logger.info(
+    `Figma MCP Server running on http://${options.host}:${options.port}${MCP_HTTP_PATH}${options.authToken ? ' (bearer token required)' : ''}`,
+  );
+  logger.info(`Output confined to ${resolve(options.outputRoot)}`);
+}
+
+function isLoopback(host: string): boolean {
+  return LOOPBACK_HOSTS.includes(host) || host.startsWith('127.');
+}
+
+function isAuthorized(req: IncomingMessage, token: string): boolean {
+  const expected = Buffer.from(`Bearer ${token}`);
+  const actual = Buffer.from(req.headers.authorization ?? '');
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+/**
+ * Read a JSON request body
+ * @returns The parsed body, undefined if it is not JSON, or BODY_TOO_LARGE
+ */
+async function readJson(req: IncomingMessage): Promise<unknown> {
+  if (Number(req.headers['content-length'] ?? 0) > MAX_BODY_BYTES) {
+    return BODY_TOO_LARGE;
+  }
+
+  // Stop reading at the limit without destroying the socket, so the 413 still gets out
+  const raw = await new Promise<Buffer | typeof BODY_TOO_LARGE>((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    const onData = (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        req.off('data', onData);
+        req.pause();
+        resolve(BODY_TOO_LARGE);
+        return;
+      }
+      chunks.push(chunk);
+    };
+    req.on('data', onData);
+    req.once('end', () => resolve(Buffer.concat(chunks)));
+    req.once('error', reject);
+  });
+  if (raw === BODY_TOO_LARGE) {
+    return raw;
+  }
+
+  try {
+    return JSON.parse(raw.toString('utf-8'));
+  } catch {
+    return undefined;
+  }
+}
+
+function sendError(res: ServerResponse, status: number, message: string): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ jsonrpc: '2.0', error: { code: -32000, message }, id: null }));
+}
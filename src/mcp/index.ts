@@ -14,10 +14,51 @@
 // See the License for the specific language governing permissions and
 // limitations under the License.
 
+import { Command } from 'commander';
+import { runHttpServer } from './http.js';
 import { FigmaMCPServer } from './server.js';
 
-const server = new FigmaMCPServer();
-server.run().catch((error) => {
-  console.error('Failed to start MCP server:', error);
-  process.exit(1);
-});
+const program = new Command();
+
+program
+  .name('mcp-figma-server')
+  .description('Figma MCP server')
+  .option('--transport <transport>', 'Transport: stdio or http', 'stdio')
+  .option('--port <number>', 'Port for the http transport', '3000')
+  .option('--host <host>', 'Host for the http transport', '127.0.0.1')
+  .option(
+    '--auth-token <token>',
+    'Bearer token required by the http transport (or use FIGMA_MCP_AUTH_TOKEN env var)',
+  )
+  .option(
+    '--output-root <dir>',
+    'Directory the http transport confines output directories to (or use FIGMA_MCP_OUTPUT_ROOT env var; default: the working directory)',
+  )
+  .action(async (options) => {
+    try {
+      if (options.transport === 'stdio') {
+        await new FigmaMCPServer().run();
+        return;
+      }
+
+      if (options.transport !== 'http') {
+        throw new Error(`Unsupported transport: ${options.transport} (use stdio or http)`);
+      }
+      const port = Number.parseInt(options.port, 10);
+      if (Number.isNaN(port) || port < 0 || port > 65535) {
+        throw new Error('Port must be a number between 0 and 65535.');
+      }
+
+      await runHttpServer({
+        port,
+        host: options.host,
+        authToken: options.authToken || process.env.FIGMA_MCP_AUTH_TOKEN || undefined,
+        outputRoot: options.outputRoot || process.env.FIGMA_MCP_OUTPUT_ROOT || process.cwd(),
+      });
+    } catch (error) {
+      console.error('Failed to start MCP server:', error);
+      process.exit(1);
+    }
+  });
+
+program.parse();
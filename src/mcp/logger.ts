@@ -0,0 +1,63 @@
+// Copyright 2025
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import type { LoggingLevel } from '@modelcontextprotocol/sdk/types.js';
+import { LOG_LEVELS, type LogLevel, type Logger, createConsoleLogger } from '../utils/logger.js';
+
+const MCP_LEVELS: Record<LogLevel, LoggingLevel> = {
+  debug: 'debug',
+  info: 'info',
+  warn: 'warning',
+  error: 'error',
+};
+
+/**
+ * Create a logger for the MCP server. stdout carries the JSON-RPC stream, so messages
+ * go to stderr and, once a client is connected, to MCP logging notifications
+ * (filtered by the level the client's session sets with logging/setLevel).
+ * @param server MCP server declaring the logging capability
+ * @param level Minimum level written to stderr and sent to the client
+ */
+export function createMcpLogger(server: Server, level: LogLevel = 'info'): Logger {
+  const stderr = createConsoleLogger({ level, stderr: true });
+
+  const log = (messageLevel: LogLevel, message: string, data?: Record<string, unknown>) => {
+    stderr[messageLevel](message, data);
+
+    if (!message.trim() || LOG_LEVELS.indexOf(messageLevel) < LOG_LEVELS.indexOf(level)) {
+      return;
+    }
+    // setLevel is stored per session, so the session ID selects the client's level
+    server
+      .sendLoggingMessage(
+        {
+          level: MCP_LEVELS[messageLevel],
+          logger: 'figma',
+          data: data ? { message: message.trim(), ...data } : message.trim(),
+        },
+        server.transport?.sessionId,
+      )
+      .catch(() => {
+        // Not connected yet; stderr already has the message
+      });
+  };
+
+  return {
+    debug: (message, data) => log('debug', message, data),
+    info: (message, data) => log('info', message, data),
+    warn: (message, data) => log('warn', message, data),
+    error: (message, data) => log('error', message, data),
+  };
+}
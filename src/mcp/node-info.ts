@@ -0,0 +1,516 @@
+// Copyright 2025
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { NodeNotFoundError } from '../client/errors.js';
+import type { FigmaApiClient } from '../client/figma-api.js';
+import { hasCorners, isContainerNode, isSceneNode, isShapeNode } from '../client/nodes.js';
+import type { LayoutSizing, Node, NodeData, Paint, TextNode } from '../client/types.js';
+import { cssEffects, cssPaint } from '../core/token-extractor.js';
+
+// Groups of properties that can be added to each node, on top of id, name, type and bounds
+export type NodeInfoField = 'layout' | 'style' | 'text' | 'component';
+
+export const NODE_INFO_FIELDS: readonly NodeInfoField[] = ['layout', 'style', 'text', 'component'];
+
+// Auto layout in flexbox terms, and how the node sizes inside its parent's auto layout
+export interface LayoutInfo {
+  direction?: 'row' | 'column';
+  wrap?: boolean;
+  gap?: number;
+  rowGap?: number; // Between wrapped rows
+  padding?: { top: number; right: number; bottom: number; left: number };
+  justifyContent?: 'start' | 'center' | 'end' | 'space-between';
+  alignItems?: 'start' | 'center' | 'end' | 'baseline';
+  clipsContent?: boolean;
+  width?: 'fixed' | 'hug' | 'fill';
+  height?: 'fixed' | 'hug' | 'fill';
+  alignSelf?: 'stretch';
+  grow?: number;
+  position?: 'absolute'; // Ignores the parent's auto layout
+}
+
+// Appearance as CSS values
+export interface StyleInfo {
+  background?: string[]; // Top layer first; "image" for image fills
+  color?: string; // Text color
+  border?: { color: string; width: number; align: 'inside' | 'outside' | 'center' };
+  borderRadius?: number | [number, number, number, number]; // Top left, clockwise
+  opacity?: number;
+  boxShadow?: string;
+  filter?: string;
+  backdropFilter?: string;
+  styles?: Record<string, string>; // Named styles by what they apply to, e.g. fill -> "Brand/Primary"
+}
+
+export interface TextInfo {
+  characters: string;
+  fontFamily?: string;
+  fontSize?: number;
+  fontWeight?: number;
+  lineHeight?: number; // Pixels
+  letterSpacing?: number; // Pixels
+  italic?: boolean;
+  textAlign?: 'left' | 'right' | 'center' | 'justify';
+  textCase?: string;
+  textDecoration?: string;
+  mixedStyles?: boolean; // Parts of the text are styled differently
+}
+
+export interface ComponentInfo {
+  componentId?: string; // Instances: the component they use
+  componentName?: string;
+  componentSetName?: string; // Instances of a variant
+  properties?: Record<string, boolean | string>; // Instances: property values
+  definitions?: Record<string, { type: string; default: boolean | string; options?: string[] }>; // Components: declared properties
+}
+
+// Node hierarchy for AI consumption
+export interface NodeInfo {
+  id: string;
+  name: string;
+  type: string;
+  visible?: boolean;
+  bounds?: {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+  };
+  layout?: LayoutInfo;
+  style?: StyleInfo;
+  text?: TextInfo;
+  component?: ComponentInfo;
+  repeated?: { count: number; nodeIds: string[] }; // Stands for `count` similar siblings, listed by ID
+  vectors?: number; // Decorative vector children left out
+  childCount?: number; // Children not listed, because of the depth limit
+  children?: NodeInfo[];
+}
+
+export interface HierarchyOptions {
+  maxDepth: number;
+  includeChildren: boolean;
+  fields: readonly NodeInfoField[];
+  includeVectors: boolean; // List decorative vector shapes instead of counting them
+  collapseRepeated: boolean; // List one of a run of similar siblings instead of all
+  definitions?: Pick<NodeData, 'components' | 'componentSets' | 'styles'>; // For component and style names
+}
+
+export const DEFAULT_HIERARCHY_OPTIONS: HierarchyOptions = {
+  maxDepth: 10,
+  includeChildren: true,
+  fields: [],
+  includeVectors: false,
+  collapseRepeated: true,
+};
+
+// Similar siblings in a row before they are collapsed into one
+const MIN_REPEATED = 3;
+
+// Rough size of JSON text per model token
+const CHARS_PER_TOKEN = 4;
+
+export function buildNodeHierarchy(
+  node: Node,
+  origin: { x: number; y: number },
+  options: HierarchyOptions,
+  depth = 0,
+): NodeInfo {
+  const nodeInfo: NodeInfo = {
+    id: node.id,
+    name: node.name,
+    type: node.type,
+    visible: node.visible,
+  };
+
+  // Add bounds if available (relative to origin)
+  if (node.absoluteBoundingBox) {
+    const bbox = node.absoluteBoundingBox;
+    nodeInfo.bounds = {
+      x: Math.round(bbox.x - origin.x),
+      y: Math.round(bbox.y - origin.y),
+      width: Math.round(bbox.width),
+      height: Math.round(bbox.height),
+    };
+  }
+
+  const { fields } = options;
+  if (fields.includes('layout')) {
+    nodeInfo.layout = layoutInfo(node);
+  }
+  if (fields.includes('style')) {
+    nodeInfo.style = styleInfo(node, options.definitions);
+  }
+  if (fields.includes('text') && node.type === 'TEXT') {
+    nodeInfo.text = textInfo(node);
+  }
+  if (fields.includes('component')) {
+    nodeInfo.component = componentInfo(node, options.definitions);
+  }
+
+  const children = node.children ?? [];
+  const listed = options.includeVectors
+    ? children
+    : children.filter((child) => !isDecorative(child));
+  if (listed.length < children.length) {
+    nodeInfo.vectors = children.length - listed.length;
+  }
+  if (listed.length === 0) {
+    return nodeInfo;
+  }
+
+  // Add children recursively if requested and within depth limit
+  if (!options.includeChildren || depth >= options.maxDepth) {
+    nodeInfo.childCount = listed.length;
+    return nodeInfo;
+  }
+
+  const runs = options.collapseRepeated ? repeatedRuns(listed) : listed.map((child) => [child]);
+  nodeInfo.children = runs.flatMap((run) => {
+    if (run.length < MIN_REPEATED) {
+      return run.map((child) => buildNodeHierarchy(child, origin, options, depth + 1));
+    }
+    const [first, ...rest] = run as [Node, ...Node[]];
+    const { children, ...info } = buildNodeHierarchy(first, origin, options, depth + 1);
+    return {
+      ...info,
+      repeated: { count: run.length, nodeIds: rest.map((child) => child.id) },
+      ...(children && { children }),
+    };
+  });
+
+  return nodeInfo;
+}
+
+/**
+ * Build a hierarchy that fits a token budget, listing fewer levels until it does
+ * @param maxTokens Budget, estimated from the length of the JSON
+ * @returns The hierarchy, the depth it lists, its estimated size, and whether levels were
+ *   left out to fit; still over budget if even the node alone does not fit
+ */
+export function buildNodeHierarchyWithinBudget(
+  node: Node,
+  origin: { x: number; y: number },
+  options: HierarchyOptions,
+  maxTokens: number,
+): { hierarchy: NodeInfo; depth: number; estimatedTokens: number; truncated: boolean } {
+  // Levels below the deepest node would only rebuild the same hierarchy
+  const fullDepth = Math.min(options.maxDepth, treeDepth(node));
+  for (let depth = fullDepth; ; depth--) {
+    const hierarchy = buildNodeHierarchy(node, origin, { ...options, maxDepth: depth });
+    const estimatedTokens = estimateTokens(hierarchy);
+    if (estimatedTokens <= maxTokens || depth === 0 || !options.includeChildren) {
+      return { hierarchy, depth, estimatedTokens, truncated: depth < fullDepth };
+    }
+  }
+}
+
+/**
+ * Estimate the model tokens a value takes up as pretty-printed JSON
+ */
+export function estimateTokens(value: unknown): number {
+  return Math.ceil(JSON.stringify(value, null, 2).length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Use a node's own position as the origin (0, 0) of its hierarchy
+ */
+export function nodeOrigin(node: Node): { x: number; y: number } {
+  return node.absoluteBoundingBox
+    ? { x: node.absoluteBoundingBox.x, y: node.absoluteBoundingBox.y }
+    : { x: 0, y: 0 };
+}
+
+/**
+ * Fetch a node and build its hierarchy, with bounds relative to the node
+ */
+export async function fetchNodeHierarchy(
+  client: FigmaApiClient,
+  fileKey: string,
+  nodeId: string,
+  options: Partial<HierarchyOptions> = {},
+  signal?: AbortSignal,
+) {
+  const nodesResponse = await client.getNodes(fileKey, [nodeId], true, signal);
+  const nodeData = nodesResponse.nodes[nodeId];
+  if (!nodeData) {
+    throw new NodeNotFoundError(`Node ${nodeId} not found in file ${fileKey}`, { fileKey, nodeId });
+  }
+
+  const rootNode = nodeData.document;
+  return {
+    fileName: nodesResponse.name,
+    lastModified: nodesResponse.lastModified,
+    version: nodesResponse.version,
+    hierarchy: buildNodeHierarchy(rootNode, nodeOrigin(rootNode), {
+      ...DEFAULT_HIERARCHY_OPTIONS,
+      definitions: nodeData,
+      ...options,
+    }),
+  };
+}
+
+/**
+ * Vector shapes draw icons and decoration; shapes filled with an image are content
+ */
+function isDecorative(node: Node): boolean {
+  return (
+    isShapeNode(node) &&
+    !node.fills?.some((paint) => paint.type === 'IMAGE' && paint.visible !== false)
+  );
+}
+
+/**
+ * Group consecutive siblings that look alike: same type, component, name apart from
+ * numbers, and the same structure two levels down, e.g. the rows of a list
+ */
+function repeatedRuns(nodes: Node[]): Node[][] {
+  const runs: Array<{ signature: string; nodes: Node[] }> = [];
+  for (const node of nodes) {
+    const signature = nodeSignature(node, 2);
+    const run = runs.at(-1);
+    if (run?.signature === signature) {
+      run.nodes.push(node);
+    } else {
+      runs.push({ signature, nodes: [node] });
+    }
+  }
+  return runs.map((run) => run.nodes);
+}
+
+function nodeSignature(node: Node, levels: number): string {
+  const kind = node.type === 'INSTANCE' ? `${node.type}:${node.componentId}` : node.type;
+  const children =
+    levels > 0 && node.children
+      ? node.children.map((child) => nodeSignature(child, levels - 1)).join(',')
+      : '';
+  return `${kind}:${node.name.replace(/\d+/g, '#')}(${children})`;
+}
+
+function treeDepth(node: Node): number {
+  return node.children?.length ? 1 + Math.max(...node.children.map(treeDepth)) : 0;
+}
+
+const SIZING: Record<LayoutSizing, 'fixed' | 'hug' | 'fill'> = {
+  FIXED: 'fixed',
+  HUG: 'hug',
+  FILL: 'fill',
+};
+
+const AXIS_ALIGN = {
+  MIN: 'start',
+  CENTER: 'center',
+  MAX: 'end',
+  SPACE_BETWEEN: 'space-between',
+  BASELINE: 'baseline',
+} as const;
+
+function layoutInfo(node: Node): LayoutInfo | undefined {
+  if (!isSceneNode(node)) {
+    return undefined;
+  }
+
+  const layout: LayoutInfo = {};
+  if (isContainerNode(node)) {
+    if (node.layoutMode && node.layoutMode !== 'NONE') {
+      layout.direction = node.layoutMode === 'HORIZONTAL' ? 'row' : 'column';
+      if (node.layoutWrap === 'WRAP') {
+        layout.wrap = true;
+        layout.rowGap = round(node.counterAxisSpacing ?? 0);
+      }
+      if (node.itemSpacing && node.primaryAxisAlignItems !== 'SPACE_BETWEEN') {
+        layout.gap = round(node.itemSpacing);
+      }
+      const padding = {
+        top: round(node.paddingTop ?? 0),
+        right: round(node.paddingRight ?? 0),
+        bottom: round(node.paddingBottom ?? 0),
+        left: round(node.paddingLeft ?? 0),
+      };
+      if (Object.values(padding).some((value) => value > 0)) {
+        layout.padding = padding;
+      }
+      layout.justifyContent = AXIS_ALIGN[node.primaryAxisAlignItems ?? 'MIN'];
+      layout.alignItems = AXIS_ALIGN[node.counterAxisAlignItems ?? 'MIN'];
+    }
+    if (node.clipsContent) {
+      layout.clipsContent = true;
+    }
+  }
+
+  if (node.layoutSizingHorizontal) {
+    layout.width = SIZING[node.layoutSizingHorizontal];
+  }
+  if (node.layoutSizingVertical) {
+    layout.height = SIZING[node.layoutSizingVertical];
+  }
+  if (node.layoutAlign === 'STRETCH') {
+    layout.alignSelf = 'stretch';
+  }
+  if (node.layoutGrow) {
+    layout.grow = node.layoutGrow;
+  }
+  if (node.layoutPositioning === 'ABSOLUTE') {
+    layout.position = 'absolute';
+  }
+
+  return Object.keys(layout).length > 0 ? layout : undefined;
+}
+
+function styleInfo(
+  node: Node,
+  definitions: HierarchyOptions['definitions'],
+): StyleInfo | undefined {
+  if (!isSceneNode(node)) {
+    return undefined;
+  }
+
+  const style: StyleInfo = {};
+  const fills = visiblePaints(node.fills).map(paintValue);
+  if (fills.length > 0) {
+    if (node.type === 'TEXT') {
+      style.color = fills.at(-1);
+    } else {
+      style.background = fills.reverse();
+    }
+  }
+
+  const stroke = visiblePaints(node.strokes).at(-1);
+  if (stroke && node.strokeWeight !== 0) {
+    style.border = {
+      color: paintValue(stroke),
+      width: round(node.strokeWeight ?? 1),
+      align:
+        node.strokeAlign === 'OUTSIDE'
+          ? 'outside'
+          : node.strokeAlign === 'CENTER'
+            ? 'center'
+            : 'inside',
+    };
+  }
+
+  if (hasCorners(node)) {
+    const radii = node.rectangleCornerRadii;
+    if (radii && new Set(radii).size > 1) {
+      style.borderRadius = radii.map(round) as [number, number, number, number];
+    } else if (node.cornerRadius) {
+      style.borderRadius = round(node.cornerRadius);
+    }
+  }
+  if (node.opacity !== undefined && node.opacity < 1) {
+    style.opacity = round(node.opacity);
+  }
+  Object.assign(style, cssEffects(node.effects));
+
+  const named = Object.entries(node.styles ?? {}).flatMap(([target, styleId]) => {
+    const name = definitions?.styles?.[styleId]?.name;
+    return name ? [[target, name]] : [];
+  });
+  if (named.length > 0) {
+    style.styles = Object.fromEntries(named);
+  }
+
+  return Object.keys(style).length > 0 ? style : undefined;
+}
+
+const TEXT_ALIGN = {
+  LEFT: 'left',
+  RIGHT: 'right',
+  CENTER: 'center',
+  JUSTIFIED: 'justify',
+} as const;
+
+function textInfo(node: TextNode): TextInfo {
+  const { style } = node;
+  return {
+    characters: node.characters,
+    fontFamily: style.fontFamily,
+    fontSize: style.fontSize,
+    fontWeight: style.fontWeight,
+    // Intrinsic line height means "auto"; leave it to the font
+    ...(style.lineHeightUnit !== 'INTRINSIC_%' &&
+      style.lineHeightPx && { lineHeight: round(style.lineHeightPx) }),
+    ...(style.letterSpacing && { letterSpacing: round(style.letterSpacing) }),
+    ...(style.italic && { italic: true }),
+    ...(style.textAlignHorizontal && { textAlign: TEXT_ALIGN[style.textAlignHorizontal] }),
+    ...(style.textCase &&
+      style.textCase !== 'ORIGINAL' && { textCase: style.textCase.toLowerCase() }),
+    ...(style.textDecoration &&
+      style.textDecoration !== 'NONE' && { textDecoration: style.textDecoration.toLowerCase() }),
+    ...(node.characterStyleOverrides?.some((override) => override !== 0) && {
+      mixedStyles: true,
+    }),
+  };
+}
+
+function componentInfo(
+  node: Node,
+  definitions: HierarchyOptions['definitions'],
+): ComponentInfo | undefined {
+  if (node.type === 'INSTANCE') {
+    const component = definitions?.components?.[node.componentId];
+    const componentSet = component?.componentSetId
+      ? definitions?.componentSets?.[component.componentSetId]
+      : undefined;
+    return {
+      componentId: node.componentId,
+      componentName: component?.name,
+      componentSetName: componentSet?.name,
+      ...(node.componentProperties && {
+        properties: Object.fromEntries(
+          Object.entries(node.componentProperties).map(([name, property]) => [
+            propertyName(name),
+            property.value,
+          ]),
+        ),
+      }),
+    };
+  }
+
+  if (
+    (node.type === 'COMPONENT' || node.type === 'COMPONENT_SET') &&
+    node.componentPropertyDefinitions
+  ) {
+    return {
+      definitions: Object.fromEntries(
+        Object.entries(node.componentPropertyDefinitions).map(([name, definition]) => [
+          propertyName(name),
+          {
+            type: definition.type.toLowerCase(),
+            default: definition.defaultValue,
+            ...(definition.variantOptions && { options: definition.variantOptions }),
+          },
+        ]),
+      ),
+    };
+  }
+
+  return undefined;
+}
+
+// Figma suffixes property names with an ID, e.g. "Label#12:3"
+function propertyName(name: string): string {
+  return name.replace(/#[^#]*$/, '');
+}
+
+function visiblePaints(paints: Paint[] | undefined): Paint[] {
+  return (paints ?? []).filter((paint) => paint.visible !== false);
+}
+
+function paintValue(paint: Paint): string {
+  return cssPaint(paint) ?? (paint.type === 'IMAGE' ? 'image' : paint.type.toLowerCase());
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
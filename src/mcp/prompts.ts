@@ -0,0 +1,93 @@
+// Copyright 2025
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import type { Prompt, PromptArgument } from '@modelcontextprotocol/sdk/types.js';
+
+export type PromptArguments = Record<string, string | undefined>;
+
+// A prompt template; the server appends the node hierarchy and render to the instructions
+export interface FigmaPrompt extends Prompt {
+  instructions: (args: PromptArguments) => string;
+}
+
+// Every prompt targets one node
+const NODE_ARGUMENTS: PromptArgument[] = [
+  {
+    name: 'figmaUrl',
+    description: 'Figma file URL, with node-id unless nodeId is given',
+    required: true,
+  },
+  { name: 'nodeId', description: 'Node ID (optional if the URL contains node-id)' },
+  {
+    name: 'includeImage',
+    description: 'Attach the rendered node as an image: "true" (default) or "false"',
+  },
+];
+
+export const FIGMA_PROMPTS: FigmaPrompt[] = [
+  {
+    name: 'implement_react_component',
+    description: 'Implement a Figma frame or component as a React component',
+    arguments: [
+      ...NODE_ARGUMENTS,
+      {
+        name: 'styling',
+        description: 'Styling approach, e.g. "CSS modules" or "Tailwind" (default: plain CSS)',
+      },
+    ],
+    instructions: (args) =>
+      [
+        'Implement the Figma node below as a React component in TypeScript.',
+        `Style it with ${args.styling || 'plain CSS'}.`,
+        '',
+        '- Reproduce the layout, spacing and sizes from the auto layout and bounds in the node hierarchy (bounds are relative to the node), and the look from its style properties.',
+        '- Split repeated or clearly separate parts into smaller components.',
+        '- Use semantic elements, and expose text content and repeated items as props.',
+        '- Do not hard-code absolute positions unless the design is genuinely free-form.',
+        '- List any assumptions you made where the design is ambiguous.',
+      ].join('\n'),
+  },
+  {
+    name: 'accessibility_audit',
+    description: 'Audit a Figma screen for accessibility problems',
+    arguments: NODE_ARGUMENTS,
+    instructions: () =>
+      [
+        'Audit the Figma screen below for accessibility against WCAG 2.2 AA.',
+        '',
+        'Check at least:',
+        '- Color contrast of text and meaningful graphics',
+        '- Touch and click target sizes (minimum 24x24)',
+        '- Heading structure, reading order and focus order implied by the layout',
+        '- Information conveyed by color, position or imagery alone',
+        '- Labels for inputs, icons and icon-only buttons',
+        '',
+        'For each issue give the node name and ID, the WCAG criterion, the severity (high, medium, low) and a concrete fix. End with the three most important changes.',
+      ].join('\n'),
+  },
+  {
+    name: 'describe_variants',
+    description: "Describe a Figma component's variants and properties",
+    arguments: NODE_ARGUMENTS,
+    instructions: () =>
+      [
+        'Describe the Figma component below and its variants.',
+        '',
+        '- List the variant properties and their values (variant names have the form "Property=Value, ...").',
+        '- Explain what changes between variants: layout, content, states.',
+        '- Point out missing or inconsistent combinations.',
+        '- Suggest a props interface a developer could implement the component with.',
+      ].join('\n'),
+  },
+];
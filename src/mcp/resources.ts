@@ -0,0 +1,87 @@
+// Copyright 2025
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import type { ResourceTemplate } from '@modelcontextprotocol/sdk/types.js';
+import { InvalidArgumentError } from '../client/errors.js';
+import type { RenderedImage } from '../client/types.js';
+import { normalizeNodeId } from '../core/url-parser.js';
+
+export const DEFAULT_EXPORTS_DIR = './output';
+
+export const RESOURCE_TEMPLATES: ResourceTemplate[] = [
+  {
+    uriTemplate: 'figma://file/{fileKey}/node/{nodeId}',
+    name: 'Figma node',
+    description: 'Node hierarchy with names, types and bounds relative to the node, as JSON',
+    mimeType: 'application/json',
+  },
+  {
+    uriTemplate: 'figma://file/{fileKey}/node/{nodeId}/render.{format}',
+    name: 'Rendered Figma node',
+    description: 'The node rendered at scale 1; format is png, jpg or svg',
+  },
+  {
+    uriTemplate: 'figma://exports{?outputDir}',
+    name: 'Export history',
+    description: `Latest export of each file in an output directory (default: ${DEFAULT_EXPORTS_DIR})`,
+    mimeType: 'application/json',
+  },
+];
+
+export type FigmaResource =
+  | { kind: 'node'; fileKey: string; nodeId: string }
+  | { kind: 'render'; fileKey: string; nodeId: string; format: RenderedImage['format'] }
+  | { kind: 'exports'; outputDir: string };
+
+/**
+ * Parse a figma:// resource URI
+ * @param uri Resource URI, e.g. figma://file/ABC123/node/1:2/render.png
+ * @returns The resource the URI points to
+ */
+export function parseResourceUri(uri: string): FigmaResource {
+  let url: URL;
+  try {
+    url = new URL(uri);
+  } catch {
+    throw new InvalidArgumentError(`Invalid resource URI: ${uri}`);
+  }
+  if (url.protocol !== 'figma:') {
+    throw new InvalidArgumentError(`Unsupported resource URI: ${uri}`);
+  }
+
+  if (url.host === 'exports' && (url.pathname === '' || url.pathname === '/')) {
+    return { kind: 'exports', outputDir: url.searchParams.get('outputDir') || DEFAULT_EXPORTS_DIR };
+  }
+
+  // Node IDs may be written as 1:2, 1-2 or percent-encoded
+  const match =
+    url.host === 'file'
+      ? url.pathname.match(/^\/([^/]+)\/node\/([^/]+)(?:\/render\.(png|jpg|svg))?$/)
+      : null;
+  if (!match?.[1] || !match[2]) {
+    throw new InvalidArgumentError(`Unknown resource: ${uri}`);
+  }
+
+  const fileKey = match[1];
+  const nodeId = normalizeNodeId(decodeURIComponent(match[2]));
+  const format = match[3] as RenderedImage['format'] | undefined;
+  return format ? { kind: 'render', fileKey, nodeId, format } : { kind: 'node', fileKey, nodeId };
+}
+
+/**
+ * Build the URI of a node resource
+ */
+export function nodeResourceUri(fileKey: string, nodeId: string): string {
+  return `figma://file/${fileKey}/node/${nodeId}`;
+}
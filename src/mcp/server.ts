@@ -14,111 +14,78 @@
 // See the License for the specific language governing permissions and
 // limitations under the License.
 
-import { existsSync, readFileSync, readdirSync, statSync } from 'node:fs';
-import { join } from 'node:path';
+import { resolve } from 'node:path';
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
 import {
   CallToolRequestSchema,
-  type CallToolResult,
+  ErrorCode,
+  GetPromptRequestSchema,
+  type GetPromptResult,
+  ListPromptsRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ListResourcesRequestSchema,
   ListToolsRequestSchema,
+  McpError,
+  type PromptMessage,
+  ReadResourceRequestSchema,
+  type ReadResourceResult,
+  type Resource,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
-import { z } from 'zod';
 import { CacheManager } from '../client/cache.js';
+import {
+  FigmaError,
+  type FigmaErrorCode,
+  InvalidArgumentError,
+  NodeNotFoundError,
+  RenderFailedError,
+  describeError,
+} from '../client/errors.js';
 import { FigmaApiClient } from '../client/figma-api.js';
-import type { Node } from '../client/types.js';
-import { ImageExporter } from '../core/image-exporter.js';
+import { type EndpointClass, type RateLimit, sharedRateLimiter } from '../client/rate-limiter.js';
+import type { RetryPolicy } from '../client/retry.js';
+import { ExportIndex, listExports } from '../core/export-index.js';
+import { ImageExporter, NODE_NOT_FOUND_REASON } from '../core/image-exporter.js';
 import { normalizeNodeId, parseFileKey, parseNodeId } from '../core/url-parser.js';
-
-// Zod schemas for tool inputs
-const ExportImageSchema = z.object({
-  figmaUrl: z.string().describe('Figma file URL (e.g., https://www.figma.com/file/...)'),
-  nodeIds: z
-    .array(z.string())
-    .optional()
-    .describe('Node IDs to export (optional if URL contains node-id)'),
-  scale: z.number().min(1).max(4).default(2).describe('Scale factor (1-4, default: 2)'),
-  format: z.enum(['png', 'jpg', 'svg', 'pdf']).default('png').describe('Image format'),
-  outputDir: z.string().default('./output').describe('Output directory path'),
-  withMetadata: z.boolean().default(true).describe('Save metadata JSON alongside images'),
-  useCache: z.boolean().default(true).describe('Use cached API responses'),
-});
-
-const GetNodeInfoSchema = z.object({
-  figmaUrl: z.string().describe('Figma file URL'),
-  nodeIds: z
-    .array(z.string())
-    .optional()
-    .describe('Node IDs to get info for (optional if URL contains node-id)'),
-  useCache: z.boolean().default(true).describe('Use cached API responses'),
-  includeChildren: z
-    .boolean()
-    .default(true)
-    .describe('Include child nodes in hierarchy (default: true)'),
-  maxDepth: z.number().default(10).describe('Maximum depth of node tree to return (default: 10)'),
-});
-
-const ListExportsSchema = z.object({
-  outputDir: z.string().default('./output').describe('Output directory to list'),
-  fileKey: z.string().optional().describe('Filter by file key (optional)'),
-});
-
-// Helper function to build node hierarchy for AI consumption
-interface NodeInfo {
-  id: string;
-  name: string;
-  type: string;
-  visible?: boolean;
-  bounds?: {
-    x: number;
-    y: number;
-    width: number;
-    height: number;
-  };
-  children?: NodeInfo[];
-}
-
-function buildNodeHierarchy(
-  node: Node,
-  origin: { x: number; y: number },
-  depth: number,
-  maxDepth: number,
-  includeChildren: boolean,
-): NodeInfo {
-  const nodeInfo: NodeInfo = {
-    id: node.id,
-    name: node.name,
-    type: node.type,
-    visible: node.visible,
-  };
-
-  // Add bounds if available (relative to origin)
-  if (node.absoluteBoundingBox) {
-    const bbox = node.absoluteBoundingBox;
-    nodeInfo.bounds = {
-      x: Math.round(bbox.x - origin.x),
-      y: Math.round(bbox.y - origin.y),
-      width: Math.round(bbox.width),
-      height: Math.round(bbox.height),
-    };
-  }
-
-  // Add children recursively if requested and within depth limit
-  if (includeChildren && node.children && node.children.length > 0 && depth < maxDepth) {
-    nodeInfo.children = node.children.map((child) =>
-      buildNodeHierarchy(child, origin, depth + 1, maxDepth, includeChildren),
-    );
-  }
-
-  return nodeInfo;
-}
+import { type LogLevel, type Logger, isLogLevel } from '../utils/logger.js';
+import { createMcpLogger } from './logger.js';
+import { NODE_INFO_FIELDS, fetchNodeHierarchy } from './node-info.js';
+import { FIGMA_PROMPTS, type PromptArguments } from './prompts.js';
+import {
+  DEFAULT_EXPORTS_DIR,
+  type FigmaResource,
+  RESOURCE_TEMPLATES,
+  nodeResourceUri,
+  parseResourceUri,
+} from './resources.js';
+import { TOOLS } from './tools/index.js';
+import {
+  type ToolExtra,
+  callTool,
+  describeTool,
+  errorResult,
+  resolveOutputDir,
+} from './tools/registry.js';
 
 export class FigmaMCPServer {
   private server: Server;
   private cacheManager: CacheManager;
   private figmaToken: string;
-
-  constructor() {
+  private logger: Logger;
+  private retryPolicy: Partial<RetryPolicy>;
+  private outputRoot?: string;
+  private subscriptions = new Set<string>(); // Subscribed resource URIs
+
+  /**
+   * @param cacheManager Cache shared with other server instances, e.g. one per HTTP session.
+   * By default the server creates its own.
+   * @param outputRoot Directory tools may write to and read exports from; unrestricted by default
+   */
+  constructor(cacheManager?: CacheManager, outputRoot?: string) {
+    this.outputRoot = outputRoot;
     this.figmaToken = process.env.FIGMA_PERSONAL_TOKEN || '';
     if (!this.figmaToken) {
       throw new Error(
@@ -126,7 +93,6 @@ export class FigmaMCPServer {
       );
     }
 
-    this.cacheManager = new CacheManager();
     this.server = new Server(
       {
         name: 'figma-mcp-server',
@@ -135,453 +101,393 @@ export class FigmaMCPServer {
       {
         capabilities: {
           tools: {},
+          resources: { subscribe: true },
+          prompts: {},
+          logging: {},
         },
       },
     );
 
+    // Never log to stdout: it carries the JSON-RPC stream
+    this.logger = createMcpLogger(this.server, getLogLevel());
+    this.cacheManager = cacheManager ?? createCacheManager(this.logger);
+    this.retryPolicy = getRetryPolicy();
+    configureRateLimits();
+
+    // Fresh node data means the node and its renders may have changed
+    const removeListener = this.cacheManager.onNodesCached((fileKey, nodeIds) => {
+      this.notifySubscribers(
+        (resource) =>
+          resource.kind !== 'exports' &&
+          resource.fileKey === fileKey &&
+          nodeIds.includes(resource.nodeId),
+      );
+    });
+    this.server.onclose = removeListener;
+
     this.setupHandlers();
   }
 
   private setupHandlers(): void {
-    // List available tools
+    // List available tools, with JSON Schema generated from each tool's zod schema
     this.server.setRequestHandler(ListToolsRequestSchema, async () => {
+      return { tools: TOOLS.map(describeTool) };
+    });
+
+    // Resources: nodes, renders and export history under figma:// URIs
+    this.server.setRequestHandler(ListResourcesRequestSchema, async () => {
+      // Nodes exported to the default output directory, most recent first
+      const nodes = new Map<string, Resource>();
+      const exportsDir = resolveOutputDir(DEFAULT_EXPORTS_DIR, this.outputRoot);
+      for (const record of new ExportIndex(exportsDir).query()) {
+        const uri = nodeResourceUri(record.fileKey, record.nodeId);
+        if (!nodes.has(uri)) {
+          nodes.set(uri, {
+            uri,
+            name: record.nodeName,
+            description: `Node ${record.nodeId} of file ${record.fileKey}`,
+            mimeType: 'application/json',
+          });
+        }
+      }
+
       return {
-        tools: [
+        resources: [
           {
-            name: 'figma_export_image',
-            description:
-              'Export images from Figma. Returns exported file paths and metadata. Use this when you need to download and save Figma designs as image files.',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                figmaUrl: {
-                  type: 'string',
-                  description: 'Figma file URL (e.g., https://www.figma.com/file/...)',
-                },
-                nodeIds: {
-                  type: 'array',
-                  items: { type: 'string' },
-                  description: 'Node IDs to export (optional if URL contains node-id parameter)',
-                },
-                scale: {
-                  type: 'number',
-                  description: 'Scale factor (1-4, default: 2)',
-                  default: 2,
-                  minimum: 1,
-                  maximum: 4,
-                },
-                format: {
-                  type: 'string',
-                  enum: ['png', 'jpg', 'svg', 'pdf'],
-                  description: 'Image format (default: png)',
-                  default: 'png',
-                },
-                outputDir: {
-                  type: 'string',
-                  description: 'Output directory path (default: ./output)',
-                  default: './output',
-                },
-                withMetadata: {
-                  type: 'boolean',
-                  description: 'Save metadata JSON alongside images (default: true)',
-                  default: true,
-                },
-                useCache: {
-                  type: 'boolean',
-                  description: 'Use cached API responses to avoid rate limits (default: true)',
-                  default: true,
-                },
-              },
-              required: ['figmaUrl'],
-            },
-          },
-          {
-            name: 'figma_get_node_info',
-            description:
-              'Get detailed node information and hierarchy from Figma. Returns structured node data including names, types, positions, sizes, and child elements. Useful for understanding the structure of a Figma design before exporting.',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                figmaUrl: {
-                  type: 'string',
-                  description: 'Figma file URL',
-                },
-                nodeIds: {
-                  type: 'array',
-                  items: { type: 'string' },
-                  description: 'Node IDs to get info for (optional if URL contains node-id)',
-                },
-                useCache: {
-                  type: 'boolean',
-                  description: 'Use cached API responses (default: true)',
-                  default: true,
-                },
-                includeChildren: {
-                  type: 'boolean',
-                  description: 'Include child nodes in hierarchy (default: true)',
-                  default: true,
-                },
-                maxDepth: {
-                  type: 'number',
-                  description: 'Maximum depth of node tree to return (default: 10)',
-                  default: 10,
-                  minimum: 1,
-                  maximum: 50,
-                },
-              },
-              required: ['figmaUrl'],
-            },
-          },
-          {
-            name: 'figma_list_exports',
-            description:
-              'List previously exported images and their metadata. Returns a list of exported files with their metadata. Useful for checking what has been exported.',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                outputDir: {
-                  type: 'string',
-                  description: 'Output directory to list (default: ./output)',
-                  default: './output',
-                },
-                fileKey: {
-                  type: 'string',
-                  description: 'Filter by Figma file key (optional)',
-                },
-              },
-            },
+            uri: 'figma://exports',
+            name: 'Export history',
+            description: `Latest export of each file in ${DEFAULT_EXPORTS_DIR}`,
+            mimeType: 'application/json',
           },
+          ...nodes.values(),
         ],
       };
     });
 
-    // Handle tool calls
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
-      const { name, arguments: args } = request.params;
+    this.server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+      return { resourceTemplates: RESOURCE_TEMPLATES };
+    });
 
+    this.server.setRequestHandler(ReadResourceRequestSchema, async (request, extra) => {
       try {
-        switch (name) {
-          case 'figma_export_image':
-            return await this.handleExportImage(args);
-          case 'figma_get_node_info':
-            return await this.handleGetNodeInfo(args);
-          case 'figma_list_exports':
-            return await this.handleListExports(args);
-          default:
-            return {
-              content: [
-                {
-                  type: 'text',
-                  text: JSON.stringify({
-                    error: `Unknown tool: ${name}`,
-                  }),
-                },
-              ],
-              isError: true,
-            };
-        }
+        return await this.readResource(request.params.uri, extra);
       } catch (error) {
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify({
-                error: error instanceof Error ? error.message : String(error),
-                stack: error instanceof Error ? error.stack : undefined,
-              }),
-            },
-          ],
-          isError: true,
-        };
+        throw toMcpError(error);
       }
     });
-  }
-
-  private async handleExportImage(args: unknown): Promise<CallToolResult> {
-    const params = ExportImageSchema.parse(args);
-
-    // Parse Figma URL
-    const fileKey = parseFileKey(params.figmaUrl);
-    const urlNodeId = parseNodeId(params.figmaUrl);
 
-    // Determine node IDs to export
-    let nodeIds: string[];
-    if (params.nodeIds && params.nodeIds.length > 0) {
-      nodeIds = params.nodeIds.map((id) => normalizeNodeId(id));
-    } else if (urlNodeId) {
-      nodeIds = [normalizeNodeId(urlNodeId)];
-    } else {
-      throw new Error(
-        'Node IDs are required. Please provide nodeIds parameter or include node-id in the URL.',
-      );
-    }
+    this.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      try {
+        parseResourceUri(request.params.uri); // Reject unknown URIs
+      } catch (error) {
+        throw toMcpError(error);
+      }
+      this.subscriptions.add(request.params.uri);
+      return {};
+    });
 
-    // Initialize API client and exporter
-    const apiClient = new FigmaApiClient(this.figmaToken, this.cacheManager);
-    const exporter = new ImageExporter(apiClient);
-
-    // Export images
-    const outputDir = params.outputDir;
-    await exporter.exportImages(fileKey, nodeIds, outputDir, {
-      scale: params.scale,
-      format: params.format,
-      withMetadata: params.withMetadata,
-      useCache: params.useCache,
-      verbose: false, // Don't show verbose output in MCP mode
+    this.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      this.subscriptions.delete(request.params.uri);
+      return {};
     });
 
-    // Collect exported files
-    const exportedFiles: Array<{ image: string; metadata?: string; nodeId: string }> = [];
-    for (const nodeId of nodeIds) {
-      const nodesResponse = await apiClient.getNodes(fileKey, [nodeId], params.useCache);
-      const nodeData = nodesResponse.nodes[nodeId];
-      if (nodeData) {
-        const nodeName = nodeData.document.name;
-        const safeNodeId = nodeId.replace(/:/g, '-');
-        const safeNodeName = this.sanitizeFileName(nodeName);
-        const fileName = `${fileKey}_${safeNodeId}_${safeNodeName}.${params.format}`;
-        const imagePath = join(outputDir, fileName);
-
-        const fileInfo: { image: string; metadata?: string; nodeId: string } = {
-          image: imagePath,
-          nodeId,
-        };
+    // Prompts for design-to-code workflows, filled with the node's hierarchy and render
+    this.server.setRequestHandler(ListPromptsRequestSchema, async () => {
+      return { prompts: FIGMA_PROMPTS.map(({ instructions, ...prompt }) => prompt) };
+    });
 
-        if (params.withMetadata) {
-          const metadataPath = join(outputDir, `${this.stripExtension(fileName)}.json`);
-          fileInfo.metadata = metadataPath;
-        }
+    this.server.setRequestHandler(GetPromptRequestSchema, async (request, extra) => {
+      try {
+        return await this.getPrompt(request.params.name, request.params.arguments ?? {}, extra);
+      } catch (error) {
+        throw toMcpError(error);
+      }
+    });
 
-        exportedFiles.push(fileInfo);
+    // Handle tool calls
+    this.server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+      const { name, arguments: args } = request.params;
+      const tool = TOOLS.find((candidate) => candidate.name === name);
+      if (!tool) {
+        return errorResult({ code: 'INVALID_ARGUMENT', message: `Unknown tool: ${name}` });
       }
-    }
 
-    return {
-      content: [
-        {
-          type: 'text',
-          text: JSON.stringify(
-            {
-              success: true,
-              fileKey,
-              nodeIds,
-              outputDir,
-              exportedFiles,
-              message: `Successfully exported ${nodeIds.length} image(s)`,
-            },
-            null,
-            2,
-          ),
-        },
-      ],
-    };
+      try {
+        return await callTool(tool, args, {
+          figmaToken: this.figmaToken,
+          cacheManager: this.cacheManager,
+          logger: this.logger,
+          retryPolicy: this.retryPolicy,
+          extra,
+          onExported: (outputDir) =>
+            this.notifySubscribers(
+              (resource) =>
+                resource.kind === 'exports' &&
+                resolve(this.outputRoot ?? '', resource.outputDir) === resolve(outputDir),
+            ),
+          outputRoot: this.outputRoot,
+        });
+      } catch (error) {
+        // Agents branch on the code; stacks stay in the server log
+        this.logger.debug(`${name} failed: ${error instanceof Error ? error.stack : error}`);
+        return errorResult(describeError(error));
+      }
+    });
   }
 
-  private async handleGetNodeInfo(args: unknown): Promise<CallToolResult> {
-    const params = GetNodeInfoSchema.parse(args);
-
-    // Parse Figma URL
-    const fileKey = parseFileKey(params.figmaUrl);
-    const urlNodeId = parseNodeId(params.figmaUrl);
+  private async getPrompt(
+    name: string,
+    args: PromptArguments,
+    extra: ToolExtra,
+  ): Promise<GetPromptResult> {
+    const prompt = FIGMA_PROMPTS.find((candidate) => candidate.name === name);
+    if (!prompt) {
+      throw new InvalidArgumentError(`Unknown prompt: ${name}`);
+    }
+    if (!args.figmaUrl) {
+      throw new InvalidArgumentError('figmaUrl is required.');
+    }
 
-    // Determine node IDs
-    let nodeIds: string[];
-    if (params.nodeIds && params.nodeIds.length > 0) {
-      nodeIds = params.nodeIds.map((id) => normalizeNodeId(id));
-    } else if (urlNodeId) {
-      nodeIds = [normalizeNodeId(urlNodeId)];
-    } else {
-      throw new Error(
-        'Node IDs are required. Please provide nodeIds parameter or include node-id in the URL.',
+    const fileKey = parseFileKey(args.figmaUrl);
+    const urlNodeId = args.nodeId || parseNodeId(args.figmaUrl);
+    if (!urlNodeId) {
+      throw new InvalidArgumentError(
+        'Node ID is required. Please provide nodeId or include node-id in the URL.',
       );
     }
+    const nodeId = normalizeNodeId(urlNodeId);
+
+    // Prompts are for building from the design, so they get every property group
+    const { fileName, hierarchy } = await fetchNodeHierarchy(
+      this.createClient(),
+      fileKey,
+      nodeId,
+      { fields: NODE_INFO_FIELDS },
+      extra.signal,
+    );
+    const messages: PromptMessage[] = [
+      { role: 'user', content: { type: 'text', text: prompt.instructions(args) } },
+      {
+        role: 'user',
+        content: {
+          type: 'text',
+          text: `Node hierarchy of "${hierarchy.name}" (${nodeId}) in "${fileName}":\n\n${JSON.stringify(hierarchy, null, 2)}`,
+        },
+      },
+    ];
 
-    // Get node information
-    const apiClient = new FigmaApiClient(this.figmaToken, this.cacheManager);
-    const nodesResponse = await apiClient.getNodes(fileKey, nodeIds, params.useCache);
-
-    // Build structured hierarchy for each node
-    const nodes: Array<{
-      nodeId: string;
-      hierarchy: NodeInfo;
-      rawData?: unknown;
-    }> = [];
-
-    for (const nodeId of nodeIds) {
-      const nodeData = nodesResponse.nodes[nodeId];
-      if (nodeData) {
-        const rootNode = nodeData.document;
-        const origin = rootNode.absoluteBoundingBox
-          ? { x: rootNode.absoluteBoundingBox.x, y: rootNode.absoluteBoundingBox.y }
-          : { x: 0, y: 0 };
-
-        const hierarchy = buildNodeHierarchy(
-          rootNode,
-          origin,
-          0,
-          params.maxDepth,
-          params.includeChildren,
-        );
-
-        nodes.push({
-          nodeId,
-          hierarchy,
+    if (args.includeImage !== 'false') {
+      // The hierarchy alone still makes a usable prompt if rendering fails
+      try {
+        const exporter = new ImageExporter(this.createClient(), this.logger);
+        const { images } = await exporter.renderImages(fileKey, [nodeId], {
+          signal: extra.signal,
         });
+        const image = images[0];
+        if (image) {
+          messages.push({
+            role: 'user',
+            content: {
+              type: 'image',
+              data: image.data.toString('base64'),
+              mimeType: image.mimeType,
+            },
+          });
+        }
+      } catch (error) {
+        extra.signal.throwIfAborted();
+        this.logger.warn(`Failed to render ${nodeId} for prompt ${name}: ${error}`);
       }
     }
 
-    return {
-      content: [
-        {
-          type: 'text',
-          text: JSON.stringify(
-            {
-              success: true,
-              fileKey,
-              fileName: nodesResponse.name,
-              lastModified: nodesResponse.lastModified,
-              nodes,
-              message: `Retrieved information for ${nodes.length} node(s)`,
-            },
-            null,
-            2,
-          ),
-        },
-      ],
-    };
+    return { description: prompt.description, messages };
   }
 
-  private async handleListExports(args: unknown): Promise<CallToolResult> {
-    const params = ListExportsSchema.parse(args);
-    const outputDir = params.outputDir;
-
-    if (!existsSync(outputDir)) {
-      return {
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify({
-              success: true,
-              outputDir,
-              exports: [],
-              message: 'Output directory does not exist',
-            }),
-          },
-        ],
-      };
-    }
-
-    // List all exported files
-    const files = readdirSync(outputDir);
-    const exports: Array<{
-      image: string;
-      metadata?: string;
-      fileKey?: string;
-      nodeId?: string;
-      nodeName?: string;
-      exportedAt?: string;
-      size?: number;
-    }> = [];
-
-    for (const file of files) {
-      if (file.endsWith('.json')) {
-        continue; // Skip metadata files in listing
+  private async readResource(uri: string, extra: ToolExtra): Promise<ReadResourceResult> {
+    const resource = parseResourceUri(uri);
+
+    switch (resource.kind) {
+      case 'node': {
+        const node = {
+          fileKey: resource.fileKey,
+          ...(await fetchNodeHierarchy(
+            this.createClient(),
+            resource.fileKey,
+            resource.nodeId,
+            {},
+            extra.signal,
+          )),
+        };
+        return {
+          contents: [{ uri, mimeType: 'application/json', text: JSON.stringify(node, null, 2) }],
+        };
       }
 
-      const imagePath = join(outputDir, file);
-      const stats = statSync(imagePath);
+      case 'render': {
+        const exporter = new ImageExporter(this.createClient(), this.logger);
+        const { images, skipped } = await exporter.renderImages(
+          resource.fileKey,
+          [resource.nodeId],
+          { format: resource.format, signal: extra.signal },
+        );
+        const image = images[0];
+        if (!image) {
+          const reason = skipped[0]?.reason ?? 'Figma returned no image';
+          const context = { fileKey: resource.fileKey, nodeId: resource.nodeId };
+          throw reason === NODE_NOT_FOUND_REASON
+            ? new NodeNotFoundError(
+                `Node ${resource.nodeId} not found in file ${resource.fileKey}`,
+                context,
+              )
+            : new RenderFailedError(`Failed to render node ${resource.nodeId}: ${reason}`, context);
+        }
 
-      // Parse filename to extract info
-      const match = file.match(/^([^_]+)_(\d+-\d+)_(.+)\.(png|jpg|svg|pdf)$/);
-      if (!match) {
-        continue;
+        return {
+          contents: [
+            image.format === 'svg'
+              ? { uri, mimeType: image.mimeType, text: image.data.toString('utf-8') }
+              : { uri, mimeType: image.mimeType, blob: image.data.toString('base64') },
+          ],
+        };
       }
 
-      const [, fileKey, nodeIdDash, nodeName] = match;
-      if (!nodeIdDash || !nodeName) {
-        continue;
+      case 'exports': {
+        const exports = listExports(resolveOutputDir(resource.outputDir, this.outputRoot));
+        return {
+          contents: [
+            {
+              uri,
+              mimeType: 'application/json',
+              text: JSON.stringify(
+                { outputDir: resource.outputDir, exports, count: exports.length },
+                null,
+                2,
+              ),
+            },
+          ],
+        };
       }
+    }
+  }
 
-      const nodeId = nodeIdDash.replace(/-/g, ':');
-
-      // Apply filter if specified
-      if (params.fileKey && fileKey !== params.fileKey) {
+  /**
+   * Tell subscribers that resources changed. Called when node data is refreshed in the
+   * cache, and with an output directory after an export.
+   */
+  private notifySubscribers(matches: (resource: FigmaResource) => boolean): void {
+    for (const uri of this.subscriptions) {
+      if (!matches(parseResourceUri(uri))) {
         continue;
       }
-
-      const exportInfo: {
-        image: string;
-        metadata?: string;
-        fileKey?: string;
-        nodeId?: string;
-        nodeName?: string;
-        exportedAt?: string;
-        size?: number;
-      } = {
-        image: imagePath,
-        fileKey,
-        nodeId,
-        nodeName: nodeName.replace(/\.[^.]+$/, ''),
-        size: stats.size,
-      };
-
-      // Check for metadata file
-      const metadataPath = join(outputDir, `${this.stripExtension(file)}.json`);
-      if (existsSync(metadataPath)) {
-        exportInfo.metadata = metadataPath;
-        try {
-          const metadataContent = readFileSync(metadataPath, 'utf-8');
-          const metadata = JSON.parse(metadataContent);
-          exportInfo.exportedAt = metadata.exportedAt;
-        } catch {
-          // Ignore metadata parsing errors
-        }
-      }
-
-      exports.push(exportInfo);
+      this.server
+        .sendResourceUpdated({ uri })
+        .catch((error) => this.logger.debug(`Failed to send resource update: ${error}`));
     }
+  }
 
-    return {
-      content: [
-        {
-          type: 'text',
-          text: JSON.stringify(
-            {
-              success: true,
-              outputDir,
-              exports,
-              count: exports.length,
-              message: `Found ${exports.length} exported image(s)`,
-            },
-            null,
-            2,
-          ),
-        },
-      ],
-    };
+  private createClient(): FigmaApiClient {
+    return new FigmaApiClient(this.figmaToken, this.cacheManager, this.logger, this.retryPolicy);
   }
 
-  private sanitizeFileName(name: string): string {
-    return name
-      .replace(/[<>:"/\\|?*]/g, '_')
-      .replace(/\s+/g, '_')
-      .replace(/_{2,}/g, '_')
-      .replace(/^_|_$/g, '')
-      .toLowerCase()
-      .substring(0, 50);
+  /**
+   * Serve on the given transport
+   */
+  async connect(transport: Transport): Promise<void> {
+    await this.server.connect(transport);
   }
 
-  private stripExtension(fileName: string): string {
-    return fileName.replace(/\.[^.]+$/, '');
+  async close(): Promise<void> {
+    await this.server.close();
   }
 
   async run(): Promise<void> {
     const transport = new StdioServerTransport();
-    await this.server.connect(transport);
+    await this.connect(transport);
     console.error('Figma MCP Server running on stdio');
   }
 }
 
+// Codes that mean the request itself was wrong, not the server
+const INVALID_PARAMS_CODES: FigmaErrorCode[] = [
+  'INVALID_ARGUMENT',
+  'INVALID_URL',
+  'NODE_NOT_FOUND',
+];
+
+/**
+ * Turn an error from a prompt or resource handler into a JSON-RPC error that keeps
+ * the error code and context in its data
+ */
+function toMcpError(error: unknown): McpError {
+  if (error instanceof McpError) {
+    return error;
+  }
+  const code =
+    error instanceof FigmaError && INVALID_PARAMS_CODES.includes(error.code)
+      ? ErrorCode.InvalidParams
+      : ErrorCode.InternalError;
+  const data = describeError(error);
+  return new McpError(code, data.message, data);
+}
+
+/**
+ * Minimum level the MCP server writes to stderr, from FIGMA_LOG_LEVEL
+ */
+export function getLogLevel(): LogLevel {
+  const level = process.env.FIGMA_LOG_LEVEL || 'info';
+  return isLogLevel(level) ? level : 'info';
+}
+
+/**
+ * Create the MCP server's cache, capped by FIGMA_CACHE_MAX_SIZE_MB when set
+ */
+export function createCacheManager(logger: Logger): CacheManager {
+  const maxSizeMb = Number.parseFloat(process.env.FIGMA_CACHE_MAX_SIZE_MB || '');
+  return new CacheManager(
+    undefined,
+    undefined,
+    maxSizeMb > 0 ? Math.floor(maxSizeMb * 1024 * 1024) : null,
+    logger,
+  );
+}
+
+/**
+ * Retry policy overrides from FIGMA_MAX_RETRIES, FIGMA_TIMEOUT_MS and FIGMA_MAX_RETRY_WAIT_MS
+ */
+export function getRetryPolicy(): Partial<RetryPolicy> {
+  const policy: Partial<RetryPolicy> = {};
+  const retries = Number.parseInt(process.env.FIGMA_MAX_RETRIES || '', 10);
+  if (retries >= 0) {
+    policy.maxAttempts = retries + 1;
+  }
+  const timeoutMs = Number.parseInt(process.env.FIGMA_TIMEOUT_MS || '', 10);
+  if (timeoutMs > 0) {
+    policy.timeoutMs = timeoutMs;
+  }
+  const maxWaitMs = Number.parseInt(process.env.FIGMA_MAX_RETRY_WAIT_MS || '', 10);
+  if (maxWaitMs >= 0) {
+    policy.maxTotalWaitMs = maxWaitMs;
+  }
+  return policy;
+}
+
+/**
+ * Apply FIGMA_RATE_LIMIT and FIGMA_IMAGE_RATE_LIMIT (requests per minute) to the
+ * process-wide rate limiter
+ */
+export function configureRateLimits(): void {
+  const limits: Partial<Record<EndpointClass, Partial<RateLimit>>> = {};
+  const files = Number.parseFloat(process.env.FIGMA_RATE_LIMIT || '');
+  if (files > 0) {
+    limits.files = { requestsPerMinute: files };
+  }
+  const images = Number.parseFloat(process.env.FIGMA_IMAGE_RATE_LIMIT || '');
+  if (images > 0) {
+    limits.images = { requestsPerMinute: images };
+  }
+  sharedRateLimiter.configure(limits);
+}
+
 // Start server if run directly
 if (import.meta.url === `file://${process.argv[1]}`) {
   const server = new FigmaMCPServer();
@@ -0,0 +1,53 @@
+// Copyright 2025
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { z } from 'zod';
+import { defineTool, jsonResult } from './registry.js';
+
+export const cacheTool = defineTool({
+  name: 'figma_cache',
+  description:
+    'Manage the local Figma cache. "stats" reports entry counts and size, "prune" removes expired entries, "clear" removes everything or only one file. Use "clear" with a fileKey when results look stale.',
+  inputSchema: z.object({
+    action: z.enum(['clear', 'prune', 'stats']).describe('Cache operation to run'),
+    fileKey: z
+      .string()
+      .optional()
+      .describe('Only clear entries for this Figma file key (clear only)'),
+  }),
+
+  async handler(params, { cacheManager }) {
+    let result: Record<string, unknown>;
+    switch (params.action) {
+      case 'clear': {
+        const removed = cacheManager.clear(params.fileKey);
+        result = {
+          removed,
+          message: `Removed ${removed} cache entr${removed === 1 ? 'y' : 'ies'}${params.fileKey ? ` for ${params.fileKey}` : ''}`,
+        };
+        break;
+      }
+      case 'prune': {
+        const removed = cacheManager.prune();
+        result = { removed, message: `Pruned ${removed} cache entr${removed === 1 ? 'y' : 'ies'}` };
+        break;
+      }
+      case 'stats':
+        result = { stats: cacheManager.stats(), message: 'Cache statistics' };
+        break;
+    }
+
+    return jsonResult({ success: true, action: params.action, ...result });
+  },
+});
@@ -0,0 +1,153 @@
+// Copyright 2025
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { z } from 'zod';
+import { InvalidArgumentError } from '../../client/errors.js';
+import type { ExportProgress } from '../../client/types.js';
+import { ImageExporter, buildVariants, summarizeExport } from '../../core/image-exporter.js';
+import { type NodeSelection, hasSelection, isValidNamePattern } from '../../core/node-selector.js';
+import { parseFileKey, resolveNodeIds } from '../../core/url-parser.js';
+import { createClient, defineTool, jsonResult, resolveOutputDir } from './registry.js';
+
+const ImageFormat = z.enum(['png', 'jpg', 'svg', 'pdf']);
+const Scale = z.number().min(1).max(4);
+
+export const exportImageTool = defineTool({
+  name: 'figma_export_image',
+  description:
+    'Export images from Figma. Returns exported file paths and metadata. Use this when you need to download and save Figma designs as image files.',
+  inputSchema: z.object({
+    figmaUrl: z.string().describe('Figma file URL (e.g., https://www.figma.com/file/...)'),
+    nodeIds: z
+      .array(z.string())
+      .optional()
+      .describe('Node IDs to export (optional if URL contains node-id parameter)'),
+    scale: z
+      .union([Scale, z.array(Scale).min(1)])
+      .default(2)
+      .describe('Scale factor, or a list such as [1, 2, 3] for @1x/@2x/@3x sets (1-4)'),
+    format: z
+      .union([ImageFormat, z.array(ImageFormat).min(1)])
+      .default('png')
+      .describe('Image format, or a list such as ["png", "svg"]'),
+    outputDir: z.string().default('./output').describe('Output directory path'),
+    withMetadata: z.boolean().default(true).describe('Save metadata JSON alongside images'),
+    useCache: z.boolean().default(true).describe('Use cached API responses to avoid rate limits'),
+    concurrency: z
+      .number()
+      .int()
+      .min(1)
+      .max(16)
+      .default(4)
+      .describe('Maximum simultaneous image downloads'),
+    fileNameTemplate: z
+      .string()
+      .optional()
+      .describe(
+        'File name template relative to outputDir. Placeholders: {name}, {slug}, {page}, {path}, {nodeId}, {fileKey}, {scale}, {format}, {ext}. "/" creates subdirectories (default: {fileKey}_{nodeId}_{slug}.{ext})',
+      ),
+    selectTypes: z
+      .array(z.string())
+      .optional()
+      .describe(
+        'Export descendants of the given nodes with these types instead of the nodes themselves (e.g. ["COMPONENT"])',
+      ),
+    selectName: z
+      .string()
+      .refine(isValidNamePattern, 'Invalid regular expression')
+      .optional()
+      .describe('Export descendants whose name matches this regular expression (e.g. "^icon/")'),
+    selectMaxDepth: z
+      .number()
+      .int()
+      .min(1)
+      .optional()
+      .describe('Maximum depth below the given nodes to select from (1 = direct children)'),
+  }),
+
+  async handler(params, context) {
+    const { extra, logger } = context;
+    const fileKey = parseFileKey(params.figmaUrl);
+    let nodeIds = resolveNodeIds(params.figmaUrl, params.nodeIds);
+    const exporter = new ImageExporter(createClient(context), logger);
+
+    // Replace the given nodes with their selected descendants
+    const selection: NodeSelection = {
+      types: params.selectTypes,
+      namePattern: params.selectName,
+      maxDepth: params.selectMaxDepth,
+    };
+    if (hasSelection(selection)) {
+      nodeIds = await exporter.selectNodeIds(
+        fileKey,
+        nodeIds,
+        selection,
+        params.useCache,
+        extra.signal,
+      );
+      if (nodeIds.length === 0) {
+        throw new InvalidArgumentError('No nodes matched the selection.', { fileKey });
+      }
+    }
+
+    // Report progress when the client asked for it with a progress token
+    const progressToken = extra._meta?.progressToken;
+    const onProgress =
+      progressToken === undefined
+        ? undefined
+        : (progress: ExportProgress) => {
+            extra
+              .sendNotification({
+                method: 'notifications/progress',
+                params: {
+                  progressToken,
+                  progress: progress.completed,
+                  total: progress.total,
+                  message: progress.message,
+                },
+              })
+              .catch((error) => logger.debug(`Failed to send progress: ${error}`));
+          };
+
+    // Export images, one file per node and format/scale variant
+    const outputDir = resolveOutputDir(params.outputDir, context.outputRoot);
+    const variants = buildVariants(
+      Array.isArray(params.format) ? params.format : [params.format],
+      Array.isArray(params.scale) ? params.scale : [params.scale],
+    );
+    const result = await exporter.exportImages(fileKey, nodeIds, outputDir, {
+      variants,
+      fileNameTemplate: params.fileNameTemplate,
+      withMetadata: params.withMetadata,
+      useCache: params.useCache,
+      concurrency: params.concurrency,
+      verbose: false, // Don't show verbose output in MCP mode
+      signal: extra.signal, // Aborted when the client cancels the request
+      onProgress,
+    });
+    context.onExported(outputDir);
+
+    return jsonResult({
+      success: result.errors.length === 0 && result.files.length > 0,
+      fileKey,
+      version: result.version,
+      nodeIds,
+      outputDir,
+      exportedFiles: result.files,
+      skipped: result.skipped,
+      errors: result.errors,
+      message: summarizeExport(result),
+    });
+  },
+});
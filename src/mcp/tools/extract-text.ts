@@ -0,0 +1,71 @@
+// Copyright 2025
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { z } from 'zod';
+import { fetchText, formatText } from '../../core/text-extractor.js';
+import { parseFileKey, resolveNodeIds } from '../../core/url-parser.js';
+import { createClient, defineTool, jsonResult } from './registry.js';
+
+export const extractTextTool = defineTool({
+  name: 'figma_extract_text',
+  description:
+    'Extract the text of Figma nodes without rendering them: every visible text layer under the given nodes, with its layer path, bounds, font and mixed-style ranges. Also returns the copy as an i18n key/value bundle or XLIFF. Use this to review copy or to get source strings for translation.',
+  inputSchema: z.object({
+    figmaUrl: z.string().describe('Figma file URL'),
+    nodeIds: z
+      .array(z.string())
+      .optional()
+      .describe('Root nodes to extract from (optional if URL contains node-id)'),
+    format: z
+      .enum(['json', 'i18n', 'xliff'])
+      .default('json')
+      .describe('Text entries as JSON, a flat key/value i18n bundle, or XLIFF 1.2'),
+    sourceLanguage: z
+      .string()
+      .default('en')
+      .describe('Language of the copy in the design, used as the XLIFF source language'),
+    useCache: z.boolean().default(true).describe('Use cached API responses'),
+  }),
+
+  async handler(params, context) {
+    const fileKey = parseFileKey(params.figmaUrl);
+    const nodeIds = resolveNodeIds(params.figmaUrl, params.nodeIds);
+    const { texts, fileName, missing } = await fetchText(
+      createClient(context),
+      fileKey,
+      nodeIds,
+      params.useCache,
+      context.extra.signal,
+    );
+
+    const summary = {
+      success: true,
+      fileKey,
+      fileName,
+      count: texts.length,
+      missing,
+      message: `Extracted ${texts.length} text(s)`,
+    };
+    if (params.format === 'json') {
+      return jsonResult({ ...summary, texts });
+    }
+
+    return {
+      content: [
+        { type: 'text', text: JSON.stringify({ ...summary, format: params.format }, null, 2) },
+        { type: 'text', text: formatText(texts, params.format, params.sourceLanguage) },
+      ],
+    };
+  },
+});
@@ -0,0 +1,65 @@
+// Copyright 2025
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { z } from 'zod';
+import { countTokens, fetchTokens, formatTokens } from '../../core/token-extractor.js';
+import { parseFileKey, resolveNodeIds } from '../../core/url-parser.js';
+import { createClient, defineTool } from './registry.js';
+
+export const extractTokensTool = defineTool({
+  name: 'figma_extract_tokens',
+  description:
+    'Extract design tokens from Figma nodes: colors, typography and shadows from the named styles used in their subtrees, and spacing and radius scales from auto layout and corner radii. Returns W3C design tokens JSON, CSS custom properties or a Tailwind theme. Use this instead of copying values out of a design by hand.',
+  inputSchema: z.object({
+    figmaUrl: z.string().describe('Figma file URL'),
+    nodeIds: z
+      .array(z.string())
+      .optional()
+      .describe('Root nodes to extract from (optional if URL contains node-id)'),
+    format: z
+      .enum(['json', 'css', 'tailwind'])
+      .default('json')
+      .describe('W3C design tokens JSON, CSS custom properties, or a Tailwind theme preset'),
+    useCache: z.boolean().default(true).describe('Use cached API responses'),
+  }),
+
+  async handler(params, context) {
+    const fileKey = parseFileKey(params.figmaUrl);
+    const nodeIds = resolveNodeIds(params.figmaUrl, params.nodeIds);
+    const { tokens, fileName, missing } = await fetchTokens(
+      createClient(context),
+      fileKey,
+      nodeIds,
+      params.useCache,
+      context.extra.signal,
+    );
+
+    const summary = {
+      success: true,
+      fileKey,
+      fileName,
+      format: params.format,
+      counts: countTokens(tokens),
+      missing,
+      message: `Extracted ${tokens.length} token(s)`,
+    };
+
+    return {
+      content: [
+        { type: 'text', text: JSON.stringify(summary, null, 2) },
+        { type: 'text', text: formatTokens(tokens, params.format) },
+      ],
+    };
+  },
+});
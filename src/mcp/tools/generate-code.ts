@@ -0,0 +1,116 @@
+// Copyright 2025
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { mkdirSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { z } from 'zod';
+import { exportCodeAssets, fetchCode } from '../../core/code-generator.js';
+import { ImageExporter } from '../../core/image-exporter.js';
+import { parseFileKey, resolveNodeIds } from '../../core/url-parser.js';
+import { createClient, defineTool, resolveOutputDir } from './registry.js';
+
+export const generateCodeTool = defineTool({
+  name: 'figma_generate_code',
+  description:
+    'Generate a structurally correct starting point for implementing a Figma frame: a React component (TSX) or HTML page, styled with a CSS file or Tailwind classes. Auto layout becomes flexbox, text becomes paragraphs with their typography, and vectors and image fills become <img> references to assets/<nodeId>.svg or .png. Deterministic; refine the result rather than writing it from scratch.',
+  inputSchema: z.object({
+    figmaUrl: z.string().describe('Figma file URL'),
+    nodeIds: z
+      .array(z.string())
+      .optional()
+      .describe(
+        'Nodes to generate code for, one component each (optional if URL contains node-id)',
+      ),
+    framework: z.enum(['react', 'html']).default('react').describe('React component or HTML page'),
+    styling: z
+      .enum(['css', 'tailwind'])
+      .default('css')
+      .describe('A stylesheet with one class per element, or Tailwind utility classes'),
+    componentName: z
+      .string()
+      .optional()
+      .describe(
+        'Component name, turned into a PascalCase identifier (default: from the node name)',
+      ),
+    outputDir: z
+      .string()
+      .optional()
+      .describe(
+        'Write the files to this directory and export the assets into it. Without it, the code is only returned and the assets can be exported with figma_export_image.',
+      ),
+    useCache: z.boolean().default(true).describe('Use cached API responses and images'),
+  }),
+
+  async handler(params, context) {
+    const fileKey = parseFileKey(params.figmaUrl);
+    const nodeIds = resolveNodeIds(params.figmaUrl, params.nodeIds);
+    const client = createClient(context);
+    const { components, fileName, missing } = await fetchCode(
+      client,
+      fileKey,
+      nodeIds,
+      {
+        framework: params.framework,
+        styling: params.styling,
+        componentName: params.componentName,
+      },
+      params.useCache,
+      context.extra.signal,
+    );
+    const files = components.flatMap((component) => component.files);
+    const assets = components.flatMap((component) => component.assets);
+
+    let exported: Awaited<ReturnType<typeof exportCodeAssets>> | undefined;
+    const outputDir = params.outputDir && resolveOutputDir(params.outputDir, context.outputRoot);
+    if (outputDir) {
+      mkdirSync(outputDir, { recursive: true });
+      for (const file of files) {
+        writeFileSync(join(outputDir, file.path), file.contents);
+      }
+      if (assets.length > 0) {
+        exported = await exportCodeAssets(
+          new ImageExporter(client, context.logger),
+          fileKey,
+          assets,
+          outputDir,
+          { useCache: params.useCache, signal: context.extra.signal },
+        );
+        context.onExported(outputDir);
+      }
+    }
+
+    const summary = {
+      success: true,
+      fileKey,
+      fileName,
+      components: components.map(({ nodeId, componentName }) => ({ nodeId, componentName })),
+      files: files.map((file) => file.path),
+      assets,
+      missing,
+      ...(outputDir && { outputDir }),
+      ...(exported && { skipped: exported.skipped, errors: exported.errors }),
+      message: `Generated ${components.length} component(s) with ${assets.length} asset(s)`,
+    };
+
+    return {
+      content: [
+        { type: 'text', text: JSON.stringify(summary, null, 2) },
+        ...files.map((file) => ({
+          type: 'text' as const,
+          text: `File: ${file.path}\n\n${file.contents}`,
+        })),
+      ],
+    };
+  },
+});
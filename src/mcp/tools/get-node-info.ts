@@ -0,0 +1,146 @@
+// Copyright 2025
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { z } from 'zod';
+import { NodeNotFoundError } from '../../client/errors.js';
+import { parseFileKey, resolveNodeIds } from '../../core/url-parser.js';
+import {
+  type HierarchyOptions,
+  NODE_INFO_FIELDS,
+  type NodeInfo,
+  buildNodeHierarchy,
+  buildNodeHierarchyWithinBudget,
+  nodeOrigin,
+} from '../node-info.js';
+import { createClient, defineTool, jsonResult } from './registry.js';
+
+export const getNodeInfoTool = defineTool({
+  name: 'figma_get_node_info',
+  description:
+    'Get detailed node information and hierarchy from Figma. Returns structured node data including names, types, positions, sizes, and child elements, plus auto layout, styles, text and component properties on request (see fields). Decorative vectors are counted instead of listed, and runs of similar siblings are listed once. Useful for understanding the structure of a Figma design before exporting or implementing it.',
+  inputSchema: z.object({
+    figmaUrl: z.string().describe('Figma file URL'),
+    nodeIds: z
+      .array(z.string())
+      .optional()
+      .describe('Node IDs to get info for (optional if URL contains node-id)'),
+    useCache: z.boolean().default(true).describe('Use cached API responses'),
+    includeChildren: z.boolean().default(true).describe('Include child nodes in hierarchy'),
+    maxDepth: z
+      .number()
+      .int()
+      .min(1)
+      .max(50)
+      .default(10)
+      .describe('Maximum depth of node tree to return'),
+    fields: z
+      .array(z.enum(NODE_INFO_FIELDS))
+      .default([])
+      .describe(
+        'Property groups to add to each node: layout (auto layout as flexbox, sizing), style (fills, border, radius, opacity, effects as CSS values, named styles), text (content and font), component (instance properties, component property definitions)',
+      ),
+    maxTokens: z
+      .number()
+      .int()
+      .min(100)
+      .optional()
+      .describe(
+        'Token budget for the response, shared equally by the nodes. Fewer levels are listed until each hierarchy fits; nodes cut off report their childCount so they can be fetched on their own.',
+      ),
+    includeVectors: z
+      .boolean()
+      .default(false)
+      .describe('List vector shapes (icons, decoration) instead of only counting them'),
+    collapseRepeated: z
+      .boolean()
+      .default(true)
+      .describe('List one of a run of similar siblings (e.g. list rows) with the IDs of the rest'),
+  }),
+
+  async handler(params, context) {
+    const fileKey = parseFileKey(params.figmaUrl);
+    const nodeIds = resolveNodeIds(params.figmaUrl, params.nodeIds);
+    const nodesResponse = await createClient(context).getNodes(
+      fileKey,
+      nodeIds,
+      params.useCache,
+      context.extra.signal,
+    );
+
+    const found = nodeIds.filter((nodeId) => nodesResponse.nodes[nodeId]);
+    if (found.length === 0) {
+      throw new NodeNotFoundError(`Node ${nodeIds.join(', ')} not found in file ${fileKey}`, {
+        fileKey,
+        nodeId: nodeIds.length === 1 ? nodeIds[0] : undefined,
+      });
+    }
+
+    // Build structured hierarchy for each node
+    const nodes: Array<{
+      nodeId: string;
+      hierarchy: NodeInfo;
+      depth?: number; // Levels listed to fit maxTokens
+      estimatedTokens?: number;
+    }> = [];
+    let truncated = false;
+
+    for (const nodeId of found) {
+      const nodeData = nodesResponse.nodes[nodeId];
+      if (!nodeData) {
+        continue;
+      }
+      const rootNode = nodeData.document;
+      const options: HierarchyOptions = {
+        maxDepth: params.maxDepth,
+        includeChildren: params.includeChildren,
+        fields: params.fields,
+        includeVectors: params.includeVectors,
+        collapseRepeated: params.collapseRepeated,
+        definitions: nodeData,
+      };
+
+      if (params.maxTokens === undefined) {
+        nodes.push({
+          nodeId,
+          hierarchy: buildNodeHierarchy(rootNode, nodeOrigin(rootNode), options),
+        });
+        continue;
+      }
+
+      const budgeted = buildNodeHierarchyWithinBudget(
+        rootNode,
+        nodeOrigin(rootNode),
+        options,
+        Math.floor(params.maxTokens / found.length),
+      );
+      truncated ||= budgeted.truncated;
+      nodes.push({
+        nodeId,
+        hierarchy: budgeted.hierarchy,
+        depth: budgeted.depth,
+        estimatedTokens: budgeted.estimatedTokens,
+      });
+    }
+    return jsonResult({
+      success: true,
+      fileKey,
+      fileName: nodesResponse.name,
+      lastModified: nodesResponse.lastModified,
+      version: nodesResponse.version,
+      nodes,
+      ...(params.maxTokens !== undefined && { truncated }),
+      message: `Retrieved information for ${nodes.length} node(s)${truncated ? ', with fewer levels to fit maxTokens' : ''}`,
+    });
+  },
+});
@@ -0,0 +1,35 @@
+// Copyright 2025
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { cacheTool } from './cache.js';
+import { exportImageTool } from './export-image.js';
+import { extractTextTool } from './extract-text.js';
+import { extractTokensTool } from './extract-tokens.js';
+import { generateCodeTool } from './generate-code.js';
+import { getNodeInfoTool } from './get-node-info.js';
+import { listExportsTool } from './list-exports.js';
+import type { ToolDefinition } from './registry.js';
+import { renderNodeTool } from './render-node.js';
+
+// Every tool the server offers, in the order clients list them
+export const TOOLS: ToolDefinition[] = [
+  exportImageTool,
+  getNodeInfoTool,
+  renderNodeTool,
+  listExportsTool,
+  extractTokensTool,
+  extractTextTool,
+  generateCodeTool,
+  cacheTool,
+];
@@ -0,0 +1,70 @@
+// Copyright 2025
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { existsSync } from 'node:fs';
+import { z } from 'zod';
+import { ExportIndex, listExports } from '../../core/export-index.js';
+import { defineTool, jsonResult, resolveOutputDir } from './registry.js';
+
+export const listExportsTool = defineTool({
+  name: 'figma_list_exports',
+  description:
+    'List previously exported images from the export index kept in the output directory. Filter by file key, node name, format and date range; each entry includes version, content hash and whether it changed since the previous export. Useful for checking what has been exported and what changed.',
+  inputSchema: z.object({
+    outputDir: z.string().default('./output').describe('Output directory to list'),
+    fileKey: z.string().optional().describe('Filter by Figma file key'),
+    nodeName: z.string().optional().describe('Filter by node name, case-insensitive substring'),
+    format: z.enum(['png', 'jpg', 'svg', 'pdf']).optional().describe('Filter by image format'),
+    since: z
+      .string()
+      .optional()
+      .describe('Only exports at or after this ISO date, e.g. 2025-01-31'),
+    until: z
+      .string()
+      .optional()
+      .describe(
+        'Only exports at or before this ISO date; a date without a time includes the whole day',
+      ),
+    history: z
+      .boolean()
+      .default(false)
+      .describe('Return every recorded export instead of the latest per file'),
+  }),
+
+  async handler(params, context) {
+    const { outputDir: requestedDir, history, ...filters } = params;
+    const outputDir = resolveOutputDir(requestedDir, context.outputRoot);
+
+    if (!new ExportIndex(outputDir).exists()) {
+      return jsonResult({
+        success: true,
+        outputDir,
+        exports: [],
+        count: 0,
+        message: existsSync(outputDir)
+          ? 'No export index found in the output directory'
+          : 'Output directory does not exist',
+      });
+    }
+
+    const exports = listExports(outputDir, { ...filters, history });
+    return jsonResult({
+      success: true,
+      outputDir,
+      exports,
+      count: exports.length,
+      message: `Found ${exports.length} ${history ? 'recorded export(s)' : 'exported image(s)'}`,
+    });
+  },
+});
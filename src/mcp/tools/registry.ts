@@ -0,0 +1,150 @@
+// Copyright 2025
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { resolve } from 'node:path';
+import type { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import type {
+  CallToolResult,
+  ServerNotification,
+  ServerRequest,
+  Tool,
+} from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import type { CacheManager } from '../../client/cache.js';
+import { InvalidArgumentError } from '../../client/errors.js';
+import { FigmaApiClient } from '../../client/figma-api.js';
+import type { RetryPolicy } from '../../client/retry.js';
+import type { Logger } from '../../utils/logger.js';
+import { isInsideDirectory } from '../../utils/paths.js';
+
+export type ToolExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+// What a tool handler gets from the server for one call
+export interface ToolContext {
+  figmaToken: string;
+  cacheManager: CacheManager;
+  logger: Logger;
+  retryPolicy: Partial<RetryPolicy>; // Overrides from the server's environment
+  extra: ToolExtra; // Abort signal, progress token and notifications of the request
+  onExported: (outputDir: string) => void; // Tell resource subscribers about new exports
+  outputRoot?: string; // Directory output must stay in (HTTP mode); unrestricted when unset
+}
+
+/**
+ * A tool, defined once: its JSON Schema is generated from the zod input schema,
+ * and the handler only runs with arguments that passed it
+ */
+export interface ToolDefinition<Schema extends z.ZodObject = z.ZodObject> {
+  name: string;
+  description: string;
+  inputSchema: Schema;
+  handler(params: z.infer<Schema>, context: ToolContext): Promise<CallToolResult>;
+}
+
+export function defineTool<Schema extends z.ZodObject>(
+  tool: ToolDefinition<Schema>,
+): ToolDefinition<Schema> {
+  return tool;
+}
+
+/**
+ * Describe a tool for ListTools, with JSON Schema generated from its input schema
+ */
+export function describeTool(tool: ToolDefinition): Tool {
+  const { $schema, ...inputSchema } = z.toJSONSchema(tool.inputSchema, { io: 'input' });
+  return {
+    name: tool.name,
+    description: tool.description,
+    inputSchema: inputSchema as Tool['inputSchema'],
+  };
+}
+
+/**
+ * Validate arguments and run a tool.
+ * Invalid arguments are returned as a tool error listing each failing field, so the
+ * model can correct the call.
+ */
+export async function callTool(
+  tool: ToolDefinition,
+  args: unknown,
+  context: ToolContext,
+): Promise<CallToolResult> {
+  const parsed = tool.inputSchema.safeParse(args ?? {});
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((issue) => ({
+      field: issue.path.join('.') || '(root)',
+      message: issue.message,
+    }));
+    return errorResult({
+      code: 'INVALID_ARGUMENT',
+      message: `Invalid arguments for ${tool.name}: ${issues.map((issue) => `${issue.field}: ${issue.message}`).join('; ')}`,
+      tool: tool.name,
+      issues,
+    });
+  }
+
+  return await tool.handler(parsed.data, context);
+}
+
+/**
+ * Resolve an output directory given by a client. With an output root, relative
+ * directories are taken from the root and anything outside it is rejected.
+ * @param outputDir Directory from the tool arguments or resource URI
+ * @param outputRoot Directory output must stay in, if any
+ * @returns Directory to read or write
+ */
+export function resolveOutputDir(outputDir: string, outputRoot?: string): string {
+  if (outputRoot === undefined) {
+    return outputDir;
+  }
+
+  const resolved = resolve(outputRoot, outputDir);
+  if (!isInsideDirectory(outputRoot, resolved)) {
+    throw new InvalidArgumentError(
+      `Output directory ${outputDir} is outside the server's output root ${resolve(outputRoot)}`,
+    );
+  }
+  return resolved;
+}
+
+/**
+ * Create an API client for a tool call
+ */
+export function createClient(context: ToolContext): FigmaApiClient {
+  return new FigmaApiClient(
+    context.figmaToken,
+    context.cacheManager,
+    context.logger,
+    context.retryPolicy,
+  );
+}
+
+/**
+ * Tool error result, with the error both as text and as structured content
+ * @param error Error with at least a code and message, e.g. from `describeError`
+ */
+export function errorResult<T extends { code: string; message: string }>(error: T): CallToolResult {
+  return {
+    content: [{ type: 'text', text: JSON.stringify({ error }) }],
+    structuredContent: { error },
+    isError: true,
+  };
+}
+
+/**
+ * Tool result carrying a JSON document as text
+ */
+export function jsonResult(value: unknown): CallToolResult {
+  return { content: [{ type: 'text', text: JSON.stringify(value, null, 2) }] };
+}
@@ -0,0 +1,90 @@
+// Copyright 2025
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { z } from 'zod';
+import { DEFAULT_RENDER_MAX_BYTES, ImageExporter } from '../../core/image-exporter.js';
+import { parseFileKey, resolveNodeIds } from '../../core/url-parser.js';
+import { createClient, defineTool } from './registry.js';
+
+export const renderNodeTool = defineTool({
+  name: 'figma_render_node',
+  description:
+    'Render Figma nodes and return the images directly, without writing files. PNG/JPG come back as image content, SVG as text. Images over the byte budget are rendered again at a smaller scale. Use this to look at a design, e.g. to compare it with a screenshot.',
+  inputSchema: z.object({
+    figmaUrl: z.string().describe('Figma file URL (e.g., https://www.figma.com/file/ABC123/...)'),
+    nodeIds: z
+      .array(z.string())
+      .optional()
+      .describe(
+        'Node IDs to render (e.g., ["1:2", "1:3"]). Optional if URL contains node-id parameter.',
+      ),
+    format: z.enum(['png', 'jpg', 'svg']).default('png').describe('Image format'),
+    scale: z
+      .number()
+      .min(0.1)
+      .max(4)
+      .default(1)
+      .describe('Scale factor 0.1-4. Lowered automatically when an image is over budget.'),
+    maxBytes: z
+      .number()
+      .int()
+      .min(1024)
+      .default(DEFAULT_RENDER_MAX_BYTES)
+      .describe(
+        'Byte budget for all images in the response, shared equally and counted as base64 for PNG/JPG',
+      ),
+    useCache: z.boolean().default(true).describe('Use cached API responses and images'),
+  }),
+
+  async handler(params, context) {
+    const fileKey = parseFileKey(params.figmaUrl);
+    const nodeIds = resolveNodeIds(params.figmaUrl, params.nodeIds);
+
+    // Render into memory; nothing is written to the output directory
+    const exporter = new ImageExporter(createClient(context), context.logger);
+    const { images, skipped } = await exporter.renderImages(fileKey, nodeIds, {
+      format: params.format,
+      scale: params.scale,
+      maxBytes: params.maxBytes,
+      useCache: params.useCache,
+      signal: context.extra.signal,
+    });
+
+    const summary = {
+      success: images.length > 0,
+      fileKey,
+      images: images.map(({ data, ...image }) => image),
+      skipped,
+      message: `Rendered ${images.length} image(s)${skipped.length > 0 ? `, skipped ${skipped.length}` : ''}`,
+    };
+
+    return {
+      content: [
+        { type: 'text', text: JSON.stringify(summary, null, 2) },
+        // SVG is markup the model can read; raster images are sent as image content
+        ...images.map((image) =>
+          image.format === 'svg'
+            ? { type: 'text' as const, text: image.data.toString('utf-8') }
+            : {
+                type: 'image' as const,
+                data: image.data.toString('base64'),
+                mimeType: image.mimeType,
+              },
+        ),
+      ],
+      structuredContent: summary,
+      isError: images.length === 0,
+    };
+  },
+});
@@ -0,0 +1,75 @@
+// Copyright 2025
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/**
+ * Split IDs into batches that fit both a count limit and a joined length limit
+ * @param ids IDs to split
+ * @param maxSize Maximum number of IDs per batch
+ * @param maxLength Maximum length of a batch joined with commas
+ * @returns Batches in the original order
+ */
+export function splitIntoBatches(ids: string[], maxSize: number, maxLength: number): string[][] {
+  const batches: string[][] = [];
+  let current: string[] = [];
+  let currentLength = 0;
+
+  for (const id of ids) {
+    // +1 for the separating comma
+    if (
+      current.length > 0 &&
+      (current.length >= maxSize || currentLength + 1 + id.length > maxLength)
+    ) {
+      batches.push(current);
+      current = [];
+      currentLength = 0;
+    }
+
+    currentLength += (current.length > 0 ? 1 : 0) + id.length;
+    current.push(id);
+  }
+
+  if (current.length > 0) {
+    batches.push(current);
+  }
+
+  return batches;
+}
+
+/**
+ * Map items with at most `concurrency` calls in flight at once
+ * @param items Items to process
+ * @param concurrency Maximum number of concurrent calls
+ * @param fn Async function applied to each item
+ * @returns Results in the original order
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  fn: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async (): Promise<void> => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index] as T, index);
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(concurrency, items.length));
+  await Promise.all(Array.from({ length: workerCount }, () => worker()));
+
+  return results;
+}
@@ -0,0 +1,99 @@
+// Copyright 2025
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+export type LogFormat = 'text' | 'json';
+
+export const LOG_LEVELS: readonly LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+/**
+ * Logger used by the client, cache and exporter, so the host decides where output goes
+ */
+export interface Logger {
+  debug(message: string, data?: Record<string, unknown>): void;
+  info(message: string, data?: Record<string, unknown>): void;
+  warn(message: string, data?: Record<string, unknown>): void;
+  error(message: string, data?: Record<string, unknown>): void;
+}
+
+export interface ConsoleLoggerOptions {
+  level?: LogLevel | 'silent'; // Minimum level written (default: info)
+  format?: LogFormat; // text (default) or one JSON object per line
+  stderr?: boolean; // Write every level to stderr, keeping stdout free
+}
+
+/**
+ * Create a logger writing to the console.
+ * debug and info go to stdout and warn and error to stderr, unless `stderr` is set.
+ */
+export function createConsoleLogger(options: ConsoleLoggerOptions = {}): Logger {
+  const { level = 'info', format = 'text', stderr = false } = options;
+  const minimum = level === 'silent' ? LOG_LEVELS.length : LOG_LEVELS.indexOf(level);
+
+  const write = (messageLevel: LogLevel, message: string, data?: Record<string, unknown>) => {
+    if (LOG_LEVELS.indexOf(messageLevel) < minimum) {
+      return;
+    }
+
+    let line: string;
+    if (format === 'json') {
+      if (!message.trim()) {
+        return; // Blank lines only space out text output
+      }
+      line = JSON.stringify({
+        time: new Date().toISOString(),
+        level: messageLevel,
+        message: message.trim(),
+        ...data,
+      });
+    } else {
+      line = data ? `${message} ${JSON.stringify(data)}` : message;
+    }
+
+    if (stderr || messageLevel === 'warn' || messageLevel === 'error') {
+      process.stderr.write(`${line}\n`);
+    } else {
+      process.stdout.write(`${line}\n`);
+    }
+  };
+
+  return {
+    debug: (message, data) => write('debug', message, data),
+    info: (message, data) => write('info', message, data),
+    warn: (message, data) => write('warn', message, data),
+    error: (message, data) => write('error', message, data),
+  };
+}
+
+/**
+ * Default logger: plain text on the console, as the CLI has always printed
+ */
+export const defaultLogger: Logger = createConsoleLogger();
+
+/**
+ * Logger that drops everything
+ */
+export const silentLogger: Logger = {
+  debug: () => {},
+  info: () => {},
+  warn: () => {},
+  error: () => {},
+};
+
+/**
+ * Check whether a string is a log level
+ */
+export function isLogLevel(value: string): value is LogLevel {
+  return (LOG_LEVELS as readonly string[]).includes(value);
+}